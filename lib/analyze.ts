@@ -0,0 +1,135 @@
+/**
+ * Account-level analytics over a sample of a user's recent tweets:
+ * posting cadence, engagement (absolute and relative to followers), and
+ * what they link to, mention and tag. Pure functions, no API calls.
+ */
+
+import type { Tweet } from "./api";
+import { engagement, median } from "./metrics";
+import { domainOf, SELF_DOMAINS } from "./themes";
+
+export interface Ranked {
+  key: string;
+  count: number;
+}
+
+export interface AccountStats {
+  username: string;
+  name: string;
+  followers: number;
+  following: number;
+  totalTweets: number; // lifetime, from the profile
+  sample: {
+    tweets: number;
+    from?: string; // oldest tweet in the sample
+    to?: string; // newest
+    days: number;
+    perDay: number;
+    replyShare: number; // 0-1
+    linkShare: number;
+    mediaShare: number;
+  };
+  cadence: {
+    byHour: number[]; // 24 buckets, UTC
+    byWeekday: number[]; // 7 buckets, Sunday first, UTC
+    peakHours: number[]; // busiest hours, most first
+  };
+  engagement: {
+    medianLikes: number;
+    medianRetweets: number;
+    medianImpressions: number;
+    meanLikes: number;
+    // (likes + retweets + replies + quotes) / followers, per tweet
+    medianRateVsFollowers: number;
+    // same interactions / impressions, over tweets with impressions
+    medianRateVsImpressions: number;
+    top: Tweet[];
+  };
+  domains: Ranked[];
+  mentions: Ranked[];
+  hashtags: Ranked[];
+}
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function rank(keys: string[], top: number): Ranked[] {
+  const counts = new Map<string, number>();
+  for (const key of keys) counts.set(key, (counts.get(key) || 0) + 1);
+  return [...counts.entries()]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, top);
+}
+
+/**
+ * Stats for a user (raw API user object) over a sample of their tweets.
+ */
+export function analyzeAccount(user: any, tweets: Tweet[], opts: { top?: number } = {}): AccountStats {
+  const top = opts.top || 10;
+  const pm = user.public_metrics || {};
+  const followers = pm.followers_count || 0;
+  const n = tweets.length;
+
+  const times = tweets.map((t) => new Date(t.created_at).getTime()).sort((a, b) => a - b);
+  // A sample spanning minutes still counts as (at least) one day
+  const days = n > 0 ? Math.max((times[n - 1] - times[0]) / 86_400_000, 1) : 0;
+
+  const byHour = new Array(24).fill(0);
+  const byWeekday = new Array(7).fill(0);
+  for (const ms of times) {
+    const d = new Date(ms);
+    byHour[d.getUTCHours()]++;
+    byWeekday[d.getUTCDay()]++;
+  }
+  const peakHours = byHour
+    .map((count, hour) => ({ hour, count }))
+    .filter((h) => h.count > 0)
+    .sort((a, b) => b.count - a.count || a.hour - b.hour)
+    .slice(0, 3)
+    .map((h) => h.hour);
+
+  const share = (pred: (t: Tweet) => boolean) => (n > 0 ? tweets.filter(pred).length / n : 0);
+  const withImpressions = tweets.filter((t) => t.metrics.impressions > 0);
+
+  return {
+    username: user.username,
+    name: user.name,
+    followers,
+    following: pm.following_count || 0,
+    totalTweets: pm.tweet_count || 0,
+    sample: {
+      tweets: n,
+      from: n > 0 ? new Date(times[0]).toISOString() : undefined,
+      to: n > 0 ? new Date(times[n - 1]).toISOString() : undefined,
+      days,
+      perDay: days > 0 ? n / days : 0,
+      replyShare: share((t) => !!t.in_reply_to_id),
+      linkShare: share((t) => t.urls.some((u) => !SELF_DOMAINS.has(domainOf(u) || ""))),
+      mediaShare: share((t) => !!t.media?.length),
+    },
+    cadence: { byHour, byWeekday, peakHours },
+    engagement: {
+      medianLikes: median(tweets.map((t) => t.metrics.likes)),
+      medianRetweets: median(tweets.map((t) => t.metrics.retweets)),
+      medianImpressions: median(tweets.map((t) => t.metrics.impressions)),
+      meanLikes: n > 0 ? tweets.reduce((sum, t) => sum + t.metrics.likes, 0) / n : 0,
+      medianRateVsFollowers: followers > 0 ? median(tweets.map((t) => engagement(t) / followers)) : 0,
+      medianRateVsImpressions: median(withImpressions.map((t) => engagement(t) / t.metrics.impressions)),
+      top: [...tweets].sort((a, b) => b.metrics.likes - a.metrics.likes).slice(0, 3),
+    },
+    domains: rank(
+      tweets.flatMap((t) => [...new Set(t.urls.map(domainOf))]).filter(
+        (d): d is string => !!d && !SELF_DOMAINS.has(d)
+      ),
+      top
+    ),
+    mentions: rank(
+      tweets.flatMap((t) => [...new Set(t.mentions.map((m) => m.toLowerCase()))]),
+      top
+    ),
+    hashtags: rank(
+      tweets.flatMap((t) => [...new Set(t.hashtags.map((h) => h.toLowerCase()))]),
+      top
+    ),
+  };
+}
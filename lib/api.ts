@@ -1,14 +1,65 @@
 /**
- * X API wrapper — search, threads, profiles, single tweets.
+ * X API wrapper — search, counts, threads, profiles, single tweets.
  * Uses Bearer token from env: X_BEARER_TOKEN
+ * Base URL and fetch are swappable (setTransport) for mocks and fixtures.
  */
 
 import { readFileSync } from "fs";
+import { join } from "path";
+import { execSync } from "child_process";
+import * as config from "./config";
+import * as ledger from "./ledger";
+import * as store from "./store";
+import { MAX_LENGTH } from "./query";
+import { withFixtures, type FetchFn, type FixtureMode } from "./fixtures";
 
-const BASE = "https://api.x.com/2";
+const LIVE_BASE_URL = "https://api.x.com/2";
 const RATE_DELAY_MS = 350; // stay under 450 req/15min
+const ARCHIVE_RATE_DELAY_MS = 1000; // full-archive search allows 1 req/sec
+
+// Per-endpoint limits for search/recent vs search/all
+const RECENT_MAX_RESULTS = 100;
+const ARCHIVE_MAX_RESULTS = 500;
+
+// counts/all pages back through long ranges; stop after this many pages
+const MAX_COUNT_PAGES = 20;
+
+// Resolved once per process so token.command doesn't run on every request
+let cachedToken: string | undefined;
 
 function getToken(): string {
+  return (cachedToken ||= readToken());
+}
+
+/**
+ * Bearer token from the configured source (token.command / token.env /
+ * token.file), else X_BEARER_TOKEN or ~/.config/env/global.env.
+ */
+function readToken(): string {
+  const source = config.load().token || {};
+
+  if (source.command) {
+    const token = execSync(source.command, { encoding: "utf-8" }).trim();
+    if (!token) throw new Error(`token.command printed nothing: ${source.command}`);
+    return token;
+  }
+
+  if (source.env) {
+    const token = process.env[source.env];
+    if (!token) throw new Error(`token.env: ${source.env} is not set`);
+    return token;
+  }
+
+  if (source.file) {
+    const path = config.expandHome(source.file);
+    const contents = readFileSync(path, "utf-8");
+    // Either a bare token or an env file with X_BEARER_TOKEN=...
+    const match = contents.match(/X_BEARER_TOKEN=["']?([^"'\n]+)/);
+    const token = match ? match[1] : contents.trim();
+    if (!token) throw new Error(`token.file ${path} is empty`);
+    return token;
+  }
+
   // Try env first
   if (process.env.X_BEARER_TOKEN) return process.env.X_BEARER_TOKEN;
 
@@ -23,7 +74,7 @@ function getToken(): string {
   } catch {}
 
   throw new Error(
-    "X_BEARER_TOKEN not found in env or ~/.config/env/global.env"
+    "X_BEARER_TOKEN not found in env or ~/.config/env/global.env (or set \"token\" in the config file)"
   );
 }
 
@@ -37,8 +88,11 @@ export interface Tweet {
   author_id: string;
   username: string;
   name: string;
+  author_followers?: number; // from includes.users, when the response had it
   created_at: string;
   conversation_id: string;
+  in_reply_to_id?: string; // parent tweet ID if this is a reply
+  in_reply_to_user_id?: string;
   metrics: {
     likes: number;
     retweets: number;
@@ -51,67 +105,172 @@ export interface Tweet {
   mentions: string[];
   hashtags: string[];
   tweet_url: string;
+  media?: TweetMedia[];
+  poll?: TweetPoll;
+  velocity?: Velocity; // set by sortByVelocity()
+  // Referenced tweets from the referenced_tweets.id expansion (one level deep)
+  quoted?: Tweet;
+  replied_to?: Tweet;
+  retweeted?: Tweet;
 }
 
-interface RawResponse {
+export type VelocityMetric = "likes" | "impressions" | "retweets";
+
+export interface Velocity {
+  metric: VelocityMetric;
+  perHour: number;
+  // "delta": change since an earlier snapshot; "lifetime": total / hours since posted
+  basis: "delta" | "lifetime";
+}
+
+export interface TweetMedia {
+  type: "photo" | "video" | "animated_gif";
+  url?: string; // full image (photos only)
+  preview_url?: string; // thumbnail for videos/GIFs
+  alt_text?: string;
+  views?: number; // video view count, when X provides it
+  duration_ms?: number;
+}
+
+export type Granularity = "minute" | "hour" | "day";
+
+export interface CountBucket {
+  start: string; // ISO 8601, inclusive
+  end: string; // exclusive
+  count: number;
+}
+
+export interface TweetPoll {
+  options: { label: string; votes: number }[];
+  status?: "open" | "closed";
+  ends_at?: string;
+}
+
+export interface RawResponse {
   data?: any[];
-  includes?: { users?: any[] };
-  meta?: { next_token?: string; result_count?: number };
+  includes?: { users?: any[]; tweets?: any[]; media?: any[]; polls?: any[] };
+  meta?: { next_token?: string; result_count?: number; total_tweet_count?: number };
   errors?: any[];
   title?: string;
   detail?: string;
   status?: number;
 }
 
-function parseTweets(raw: RawResponse): Tweet[] {
+export function parseTweets(raw: RawResponse): Tweet[] {
   if (!raw.data) return [];
   const users: Record<string, any> = {};
   for (const u of raw.includes?.users || []) {
     users[u.id] = u;
   }
+  const refs: Record<string, any> = {};
+  for (const t of raw.includes?.tweets || []) {
+    refs[t.id] = t;
+  }
+  const attachments: Attachments = { media: {}, polls: {} };
+  for (const m of raw.includes?.media || []) {
+    attachments.media[m.media_key] = m;
+  }
+  for (const p of raw.includes?.polls || []) {
+    attachments.polls[p.id] = p;
+  }
 
   return raw.data.map((t: any) => {
-    const u = users[t.author_id] || {};
-    const m = t.public_metrics || {};
-    return {
-      id: t.id,
-      text: t.text,
-      author_id: t.author_id,
-      username: u.username || "?",
-      name: u.name || "?",
-      created_at: t.created_at,
-      conversation_id: t.conversation_id,
-      metrics: {
-        likes: m.like_count || 0,
-        retweets: m.retweet_count || 0,
-        replies: m.reply_count || 0,
-        quotes: m.quote_count || 0,
-        impressions: m.impression_count || 0,
-        bookmarks: m.bookmark_count || 0,
-      },
-      urls: (t.entities?.urls || [])
-        .map((u: any) => u.expanded_url)
-        .filter(Boolean),
-      mentions: (t.entities?.mentions || [])
-        .map((m: any) => m.username)
-        .filter(Boolean),
-      hashtags: (t.entities?.hashtags || [])
-        .map((h: any) => h.tag)
-        .filter(Boolean),
-      tweet_url: `https://x.com/${u.username || "?"}/status/${t.id}`,
-    };
+    const tweet = parseTweet(t, users, attachments);
+    for (const r of t.referenced_tweets || []) {
+      if (!refs[r.id]) continue;
+      const ref = parseTweet(refs[r.id], users, attachments);
+      if (r.type === "quoted") tweet.quoted = ref;
+      else if (r.type === "replied_to") tweet.replied_to = ref;
+      else if (r.type === "retweeted") tweet.retweeted = ref;
+    }
+    return tweet;
   });
 }
 
+interface Attachments {
+  media: Record<string, any>;
+  polls: Record<string, any>;
+}
+
+function parseTweet(
+  t: any,
+  users: Record<string, any>,
+  attachments: Attachments
+): Tweet {
+  const u = users[t.author_id] || {};
+  const m = t.public_metrics || {};
+  const media: TweetMedia[] = (t.attachments?.media_keys || [])
+    .map((key: string) => attachments.media[key])
+    .filter(Boolean)
+    .map((md: any) => ({
+      type: md.type,
+      url: md.url,
+      preview_url: md.preview_image_url,
+      alt_text: md.alt_text,
+      views: md.public_metrics?.view_count,
+      duration_ms: md.duration_ms,
+    }));
+  const rawPoll = attachments.polls[t.attachments?.poll_ids?.[0]];
+  const poll: TweetPoll | undefined = rawPoll
+    ? {
+        options: (rawPoll.options || []).map((o: any) => ({
+          label: o.label,
+          votes: o.votes || 0,
+        })),
+        status: rawPoll.voting_status,
+        ends_at: rawPoll.end_datetime,
+      }
+    : undefined;
+
+  return {
+    id: t.id,
+    text: t.text,
+    author_id: t.author_id,
+    username: u.username || "?",
+    name: u.name || "?",
+    author_followers: u.public_metrics?.followers_count,
+    created_at: t.created_at,
+    conversation_id: t.conversation_id,
+    in_reply_to_id: (t.referenced_tweets || []).find(
+      (r: any) => r.type === "replied_to"
+    )?.id,
+    in_reply_to_user_id: t.in_reply_to_user_id,
+    metrics: {
+      likes: m.like_count || 0,
+      retweets: m.retweet_count || 0,
+      replies: m.reply_count || 0,
+      quotes: m.quote_count || 0,
+      impressions: m.impression_count || 0,
+      bookmarks: m.bookmark_count || 0,
+    },
+    urls: (t.entities?.urls || [])
+      .map((u: any) => u.expanded_url)
+      .filter(Boolean),
+    mentions: (t.entities?.mentions || [])
+      .map((m: any) => m.username)
+      .filter(Boolean),
+    hashtags: (t.entities?.hashtags || [])
+      .map((h: any) => h.tag)
+      .filter(Boolean),
+    tweet_url: `https://x.com/${u.username || "?"}/status/${t.id}`,
+    media: media.length > 0 ? media : undefined,
+    poll,
+  };
+}
+
 const FIELDS =
-  "tweet.fields=created_at,public_metrics,author_id,conversation_id,entities&expansions=author_id&user.fields=username,name,public_metrics";
+  "tweet.fields=created_at,public_metrics,author_id,conversation_id,entities,in_reply_to_user_id,referenced_tweets,attachments" +
+  "&expansions=author_id,referenced_tweets.id,referenced_tweets.id.author_id,attachments.media_keys,attachments.poll_ids" +
+  "&user.fields=username,name,public_metrics" +
+  "&media.fields=type,url,preview_image_url,alt_text,public_metrics,duration_ms" +
+  "&poll.fields=options,voting_status,end_datetime";
 
 /**
- * Parse a "since" value into an ISO 8601 timestamp.
- * Accepts: "1h", "2h", "6h", "12h", "1d", "2d", "3d", "7d"
- * Or a raw ISO 8601 string.
+ * Parse a "since"/"until" value into an ISO 8601 timestamp.
+ * Accepts: "1h", "2h", "6h", "12h", "1d", "2d", "3d", "7d" (relative to now)
+ * Or a raw ISO 8601 string / date like "2024-01-15".
  */
-function parseSince(since: string): string | null {
+export function parseSince(since: string): string | null {
   // Check for shorthand like "1h", "3h", "1d"
   const match = since.match(/^(\d+)(m|h|d)$/);
   if (match) {
@@ -137,32 +296,205 @@ function parseSince(since: string): string | null {
   return null;
 }
 
+/**
+ * parseSince for a --since/--until value the user gave: unreadable input
+ * is an error, not a silent fall back to the default time window.
+ */
+export function parseTime(value: string, flag: string): string {
+  const iso = parseSince(value);
+  if (!iso) {
+    throw new Error(`Invalid ${flag} "${value}" (use 30m, 3h, 7d, 2024-01-15 or ISO 8601)`);
+  }
+  return iso;
+}
+
+/**
+ * Where requests go and how. Defaults come from the environment:
+ * X_API_BASE_URL (e.g. a mock server), X_API_FIXTURES=record|replay and
+ * X_API_FIXTURES_DIR (default data/fixtures).
+ */
+export interface Transport {
+  baseUrl: string; // up to and including /2
+  fetch: FetchFn; // default: global fetch, looked up per request
+  fixtures?: FixtureMode;
+  fixturesDir: string;
+}
+
+const transport: Transport = {
+  baseUrl: (process.env.X_API_BASE_URL || LIVE_BASE_URL).replace(/\/$/, ""),
+  fetch: (url, init) => fetch(url, init),
+  fixtures: (process.env.X_API_FIXTURES || undefined) as FixtureMode | undefined,
+  fixturesDir: process.env.X_API_FIXTURES_DIR || join(import.meta.dir, "..", "data", "fixtures"),
+};
+let customFetch = false;
+
+export function setTransport(opts: Partial<Transport>) {
+  if (opts.fetch) customFetch = true;
+  Object.assign(transport, opts);
+  transport.baseUrl = transport.baseUrl.replace(/\/$/, "");
+}
+
+/**
+ * True when requests reach the real X API (live or recording) and cost
+ * money. Mock servers, replayed fixtures and injected fetches don't touch
+ * the on-disk ledger or the local archive.
+ */
+export function usesLiveApi(): boolean {
+  return transport.baseUrl === LIVE_BASE_URL && !customFetch && transport.fixtures !== "replay";
+}
+
+/**
+ * Whether search results may be served from / written to the cache. Off
+ * for anything but plain live requests, so fake data never leaks into real
+ * runs and recordings always hit the API.
+ */
+export function cacheable(): boolean {
+  return usesLiveApi() && !transport.fixtures;
+}
+
+/**
+ * Retry behaviour for apiGet. 5xx and network errors are retried with
+ * exponential backoff; 429s either fail fast or wait for the reset.
+ */
+export interface RetryOptions {
+  retries: number; // max retries for 5xx / network errors
+  backoffMs: number; // first backoff delay, doubled each retry
+  waitOnRateLimit: boolean; // sleep until x-rate-limit-reset on 429
+  maxRateLimitWaitSec: number; // give up if the reset is further out than this
+}
+
+const retryOptions: RetryOptions = {
+  retries: 3,
+  backoffMs: 1000,
+  waitOnRateLimit: false,
+  maxRateLimitWaitSec: 900,
+};
+
+export function setRetryOptions(opts: Partial<RetryOptions>) {
+  Object.assign(retryOptions, opts);
+}
+
 async function apiGet(url: string): Promise<RawResponse> {
-  const token = getToken();
-  const res = await fetch(url, {
-    headers: { Authorization: `Bearer ${token}` },
-  });
+  if (transport.fixtures && transport.fixtures !== "record" && transport.fixtures !== "replay") {
+    throw new Error(`Invalid X_API_FIXTURES "${transport.fixtures}" (use record or replay)`);
+  }
+  // Replayed fixtures need no token
+  const token = transport.fixtures === "replay" ? "" : getToken();
+  ledger.checkBudget(0);
+  const send = transport.fixtures
+    ? withFixtures(transport.fetch, transport.fixtures, transport.fixturesDir)
+    : transport.fetch;
+  let attempt = 0;
+  let rateLimitWaits = 0;
+
+  while (true) {
+    let res: Response;
+    try {
+      res = await send(url, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    } catch (e: any) {
+      // A missing fixture won't appear on retry
+      if (transport.fixtures === "replay") throw e;
+      if (attempt < retryOptions.retries) {
+        await backoff(attempt++, `network error: ${e.message}`);
+        continue;
+      }
+      throw new Error(`Network error: ${e.message}`);
+    }
 
-  if (res.status === 429) {
-    const reset = res.headers.get("x-rate-limit-reset");
-    const waitSec = reset
-      ? Math.max(parseInt(reset) - Math.floor(Date.now() / 1000), 1)
-      : 60;
-    throw new Error(`Rate limited. Resets in ${waitSec}s`);
+    if (res.status === 429) {
+      const reset = res.headers.get("x-rate-limit-reset");
+      const waitSec = reset
+        ? Math.max(parseInt(reset) - Math.floor(Date.now() / 1000), 1)
+        : 60;
+      if (
+        retryOptions.waitOnRateLimit &&
+        waitSec <= retryOptions.maxRateLimitWaitSec &&
+        rateLimitWaits < 3
+      ) {
+        rateLimitWaits++;
+        console.error(`Rate limited — waiting ${waitSec}s for reset...`);
+        await sleep(waitSec * 1000);
+        continue;
+      }
+      throw new Error(`Rate limited. Resets in ${waitSec}s`);
+    }
+
+    if (res.status >= 500 && attempt < retryOptions.retries) {
+      await backoff(attempt++, `X API ${res.status}`);
+      continue;
+    }
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`X API ${res.status}: ${body.slice(0, 200)}`);
+    }
+
+    const raw = (await res.json()) as RawResponse;
+    recordSpend(url, raw);
+    if (usesLiveApi()) archiveResponse(url, raw);
+    return raw;
   }
+}
 
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`X API ${res.status}: ${body.slice(0, 200)}`);
+/**
+ * Log a successful call to the spend ledger (failed requests aren't billed).
+ */
+function recordSpend(url: string, raw: RawResponse) {
+  const u = new URL(url);
+  const endpoint = u.pathname
+    .replace(/^\/2/, "")
+    .replace(/(username\/)[^/]+/, "$1:username")
+    .replace(/\/\d+/g, "/:id");
+  const isUserLookup = endpoint.startsWith("/users/");
+  let posts = Array.isArray(raw.data) ? raw.data.length : raw.data && !isUserLookup ? 1 : 0;
+  // Counts responses hold time buckets, not posts
+  if (endpoint.startsWith("/tweets/counts/")) posts = 0;
+  ledger.record(
+    {
+      endpoint,
+      query: u.searchParams.get("query") || undefined,
+      posts,
+      users: isUserLookup && raw.data ? 1 : 0,
+    },
+    // Fake calls still count toward session stats, but not the real ledger
+    usesLiveApi()
+  );
+}
+
+/**
+ * Keep every tweet and user we've paid for in the local archive.
+ */
+function archiveResponse(url: string, raw: RawResponse) {
+  try {
+    const path = new URL(url).pathname;
+    if (path.includes("/tweets/counts/")) return;
+    if (path.startsWith("/2/users/")) {
+      if (raw.data) store.saveUsers([raw.data]);
+      return;
+    }
+    store.saveUsers(raw.includes?.users || []);
+    const data = Array.isArray(raw.data) ? raw.data : raw.data ? [raw.data] : [];
+    store.saveTweets(parseTweets({ ...raw, data }));
+  } catch (e: any) {
+    console.error(`⚠️  Could not update local archive: ${e.message}`);
   }
+}
 
-  return res.json();
+async function backoff(attempt: number, reason: string) {
+  const ms = retryOptions.backoffMs * 2 ** attempt;
+  console.error(
+    `${reason} — retrying in ${(ms / 1000).toFixed(1)}s (${attempt + 1}/${retryOptions.retries})`
+  );
+  await sleep(ms);
 }
 
 /**
- * Search recent tweets (last 7 days).
- * Note: Full-archive search (/2/tweets/search/all) is available on the same
- * pay-per-use plan (no enterprise required) but not yet implemented here.
+ * Search tweets. Uses recent search (last 7 days) by default, or
+ * full-archive search (/2/tweets/search/all, back to 2006) with `archive`.
+ * Full-archive is on the same pay-per-use plan — no enterprise required.
+ * Note: without `since`, full-archive only covers the last 30 days.
  */
 export async function search(
   query: string,
@@ -171,20 +503,41 @@ export async function search(
     pages?: number;
     sortOrder?: "relevancy" | "recency";
     since?: string; // ISO 8601 timestamp or shorthand like "1h", "3h", "1d"
+    until?: string; // same formats as since
+    sinceId?: string; // only tweets newer than this ID
+    archive?: boolean;
+    // Called instead of throwing when a page after the first fails
+    onPartial?: (error: Error, fetched: number) => void;
+    // Called when the last page fetched still had more results after it
+    onTruncated?: () => void;
   } = {}
 ): Promise<Tweet[]> {
-  const maxResults = Math.max(Math.min(opts.maxResults || 100, 100), 10);
+  const endpoint = opts.archive ? "search/all" : "search/recent";
+  const maxLength = opts.archive ? MAX_LENGTH.archive : MAX_LENGTH.recent;
+  if (query.length > maxLength) {
+    throw new Error(
+      `Query is ${query.length} chars — ${endpoint} allows max ${maxLength}`
+    );
+  }
+
+  const pageMax = opts.archive ? ARCHIVE_MAX_RESULTS : RECENT_MAX_RESULTS;
+  const maxResults = Math.max(Math.min(opts.maxResults || pageMax, pageMax), 10);
   const pages = opts.pages || 1;
   const sort = opts.sortOrder || "relevancy";
   const encoded = encodeURIComponent(query);
+  const delay = opts.archive ? ARCHIVE_RATE_DELAY_MS : RATE_DELAY_MS;
+  ledger.checkBudget(ledger.estimateCost(maxResults * pages));
 
   // Build time filter
   let timeFilter = "";
   if (opts.since) {
-    const startTime = parseSince(opts.since);
-    if (startTime) {
-      timeFilter = `&start_time=${startTime}`;
-    }
+    timeFilter += `&start_time=${parseTime(opts.since, "--since")}`;
+  }
+  if (opts.until) {
+    timeFilter += `&end_time=${parseTime(opts.until, "--until")}`;
+  }
+  if (opts.sinceId) {
+    timeFilter += `&since_id=${opts.sinceId}`;
   }
 
   let allTweets: Tweet[] = [];
@@ -194,26 +547,100 @@ export async function search(
     const pagination = nextToken
       ? `&pagination_token=${nextToken}`
       : "";
-    const url = `${BASE}/tweets/search/recent?query=${encoded}&max_results=${maxResults}&${FIELDS}&sort_order=${sort}${timeFilter}${pagination}`;
+    const url = `${transport.baseUrl}/tweets/${endpoint}?query=${encoded}&max_results=${maxResults}&${FIELDS}&sort_order=${sort}${timeFilter}${pagination}`;
 
-    const raw = await apiGet(url);
+    let raw: RawResponse;
+    try {
+      raw = await apiGet(url);
+    } catch (e: any) {
+      // Keep what earlier pages already paid for
+      if (page === 0) throw e;
+      if (opts.onPartial) {
+        opts.onPartial(e, allTweets.length);
+      } else {
+        console.error(
+          `⚠️  Page ${page + 1} failed (${e.message}) — returning ${allTweets.length} tweets from earlier pages`
+        );
+      }
+      break;
+    }
     const tweets = parseTweets(raw);
     allTweets.push(...tweets);
 
     nextToken = raw.meta?.next_token;
     if (!nextToken) break;
-    if (page < pages - 1) await sleep(RATE_DELAY_MS);
+    if (page < pages - 1) await sleep(delay);
   }
+  if (nextToken) opts.onTruncated?.();
 
   return allTweets;
 }
 
+/**
+ * Most posts a search with these options could read, for budget checks
+ * that cover several searches at once.
+ */
+export function maxSearchPosts(opts: { pages?: number; archive?: boolean } = {}): number {
+  return (opts.archive ? ARCHIVE_MAX_RESULTS : RECENT_MAX_RESULTS) * (opts.pages || 1);
+}
+
+/**
+ * Tweet volume over time for a query, oldest bucket first. Uses
+ * /2/tweets/counts/recent (last 7 days) or, with `archive`,
+ * /2/tweets/counts/all (default last 30 days), which pages through long
+ * ranges. Counts read no posts, so they cost a fraction of a search.
+ */
+export async function counts(
+  query: string,
+  opts: {
+    granularity?: Granularity; // default: hour
+    since?: string; // same formats as search
+    until?: string;
+    archive?: boolean;
+  } = {}
+): Promise<{ buckets: CountBucket[]; total: number }> {
+  const endpoint = opts.archive ? "counts/all" : "counts/recent";
+  const maxLength = opts.archive ? MAX_LENGTH.archive : MAX_LENGTH.recent;
+  if (query.length > maxLength) {
+    throw new Error(
+      `Query is ${query.length} chars — ${endpoint} allows max ${maxLength}`
+    );
+  }
+
+  let params = `query=${encodeURIComponent(query)}&granularity=${opts.granularity || "hour"}`;
+  if (opts.since) params += `&start_time=${parseTime(opts.since, "--since")}`;
+  if (opts.until) params += `&end_time=${parseTime(opts.until, "--until")}`;
+  const delay = opts.archive ? ARCHIVE_RATE_DELAY_MS : RATE_DELAY_MS;
+
+  const buckets: CountBucket[] = [];
+  let total = 0;
+  let nextToken: string | undefined;
+
+  for (let page = 0; page < MAX_COUNT_PAGES; page++) {
+    const pagination = nextToken ? `&next_token=${nextToken}` : "";
+    const raw = await apiGet(`${transport.baseUrl}/tweets/${endpoint}?${params}${pagination}`);
+    for (const b of raw.data || []) {
+      buckets.push({ start: b.start, end: b.end, count: b.tweet_count || 0 });
+    }
+    total += raw.meta?.total_tweet_count || 0;
+
+    nextToken = raw.meta?.next_token;
+    if (!nextToken) break;
+    await sleep(delay);
+  }
+
+  buckets.sort((a, b) => a.start.localeCompare(b.start));
+  return { buckets, total };
+}
+
 /**
  * Fetch a full conversation thread by root tweet ID.
+ * Returns the root (if still available) followed by every reply found.
+ * Use threadTree() to rebuild the reply structure.
  */
 export async function thread(
   conversationId: string,
-  opts: { pages?: number } = {}
+  opts: { pages?: number; root?: Tweet } = {} // root: already fetched, skips the lookup
 ): Promise<Tweet[]> {
   const query = `conversation_id:${conversationId}`;
   const tweets = await search(query, {
@@ -221,34 +648,136 @@ export async function thread(
     sortOrder: "recency",
   });
 
-  // Also fetch the root tweet
-  try {
-    const rootUrl = `${BASE}/tweets/${conversationId}?${FIELDS}`;
-    const raw = await apiGet(rootUrl);
-    const rootTweets = parseTweets({ ...raw, data: raw.data ? [raw.data] : (raw as any).id ? [raw] : [] });
-    // Fix: single tweet lookup returns tweet at top level
-    if ((raw as any).id) {
-      // raw is the tweet itself — need to re-fetch with proper structure
+  // The search doesn't reliably include the root, so fetch it directly
+  if (!tweets.some((t) => t.id === conversationId)) {
+    if (opts.root?.id === conversationId) {
+      tweets.unshift(opts.root);
+      return dedupe(tweets);
     }
-    if (rootTweets.length > 0) {
-      tweets.unshift(...rootTweets);
+    try {
+      const root = await getTweet(conversationId);
+      if (root) tweets.unshift(root);
+    } catch {
+      // Root tweet might be deleted
     }
-  } catch {
-    // Root tweet might be deleted
   }
 
-  return tweets;
+  return dedupe(tweets);
+}
+
+/**
+ * Fetch tweets that quote a given tweet (/2/tweets/:id/quote_tweets).
+ */
+export async function quotes(
+  tweetId: string,
+  opts: { pages?: number; maxResults?: number } = {}
+): Promise<Tweet[]> {
+  const maxResults = Math.max(Math.min(opts.maxResults || 100, 100), 10);
+  const pages = opts.pages || 1;
+  ledger.checkBudget(ledger.estimateCost(maxResults * pages));
+
+  let allTweets: Tweet[] = [];
+  let nextToken: string | undefined;
+
+  for (let page = 0; page < pages; page++) {
+    const pagination = nextToken ? `&pagination_token=${nextToken}` : "";
+    const url = `${transport.baseUrl}/tweets/${tweetId}/quote_tweets?max_results=${maxResults}&${FIELDS}${pagination}`;
+
+    const raw = await apiGet(url);
+    allTweets.push(...parseTweets(raw));
+
+    nextToken = raw.meta?.next_token;
+    if (!nextToken) break;
+    if (page < pages - 1) await sleep(RATE_DELAY_MS);
+  }
+
+  return allTweets;
+}
+
+export interface ThreadNode {
+  tweet: Tweet;
+  children: ThreadNode[];
+}
+
+export interface ThreadTree {
+  root?: Tweet;
+  selfThread: Tweet[]; // root author's own chain, in order (starts with root)
+  replies: ThreadNode[]; // everything else, nested under parents
+}
+
+/**
+ * Rebuild a conversation as a reply tree.
+ * The root author's self-thread comes first; other replies hang off the
+ * tweet they answer. Replies whose parent wasn't fetched go top-level.
+ */
+export function threadTree(tweets: Tweet[], conversationId: string): ThreadTree {
+  const byTime = (a: Tweet, b: Tweet) =>
+    new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  const byId = new Map(tweets.map((t) => [t.id, t]));
+  const childrenOf = new Map<string, Tweet[]>();
+  for (const t of tweets) {
+    if (!t.in_reply_to_id) continue;
+    const list = childrenOf.get(t.in_reply_to_id) || [];
+    list.push(t);
+    childrenOf.set(t.in_reply_to_id, list);
+  }
+
+  // Walk the author's chain: each step is their earliest reply to the previous step
+  const root = byId.get(conversationId);
+  const selfThread: Tweet[] = [];
+  let current = root;
+  while (current) {
+    selfThread.push(current);
+    const authorId = root!.author_id;
+    current = (childrenOf.get(current.id) || [])
+      .filter((t) => t.author_id === authorId)
+      .sort(byTime)[0];
+  }
+  const inSelfThread = new Set(selfThread.map((t) => t.id));
+
+  const build = (t: Tweet): ThreadNode => ({
+    tweet: t,
+    children: (childrenOf.get(t.id) || [])
+      .filter((c) => !inSelfThread.has(c.id))
+      .sort(byTime)
+      .map(build),
+  });
+
+  // Top level: replies to the self-thread, plus orphans whose parent is missing
+  const topLevel = tweets.filter(
+    (t) =>
+      !inSelfThread.has(t.id) &&
+      (!t.in_reply_to_id ||
+        inSelfThread.has(t.in_reply_to_id) ||
+        !byId.has(t.in_reply_to_id))
+  );
+
+  return {
+    root,
+    selfThread,
+    replies: sortBy(topLevel, "likes").map(build),
+  };
 }
 
 /**
- * Get recent tweets from a specific user.
+ * Get recent tweets from a specific user. `count` is per page; more pages
+ * (and `archive` + `since` for more than 7 days) give a bigger sample.
  */
 export async function profile(
   username: string,
-  opts: { count?: number; includeReplies?: boolean } = {}
+  opts: {
+    count?: number;
+    pages?: number;
+    includeReplies?: boolean;
+    sinceId?: string;
+    archive?: boolean;
+    since?: string;
+  } = {}
 ): Promise<{ user: any; tweets: Tweet[] }> {
+  ledger.checkBudget(ledger.estimateCost((opts.count || 20) * (opts.pages || 1), 1));
+
   // First, look up user ID
-  const userUrl = `${BASE}/users/by/username/${username}?user.fields=public_metrics,description,created_at`;
+  const userUrl = `${transport.baseUrl}/users/by/username/${username}?user.fields=public_metrics,description,created_at`;
   const userData = await apiGet(userUrl);
   
   if (!userData.data) {
@@ -262,18 +791,142 @@ export async function profile(
   const replyFilter = opts.includeReplies ? "" : " -is:reply";
   const query = `from:${username} -is:retweet${replyFilter}`;
   const tweets = await search(query, {
-    maxResults: Math.min(opts.count || 20, 100),
+    maxResults: Math.min(opts.count || 20, opts.archive ? ARCHIVE_MAX_RESULTS : RECENT_MAX_RESULTS),
+    pages: opts.pages,
     sortOrder: "recency",
+    sinceId: opts.sinceId,
+    archive: opts.archive,
+    since: opts.since,
   });
 
   return { user, tweets };
 }
 
+/**
+ * Build OR'ed `from:` queries for a list of accounts, split so each query
+ * (including the suffix) stays under the endpoint's length limit.
+ */
+export function buildFromQueries(
+  usernames: string[],
+  suffix: string = "",
+  maxLength: number = MAX_LENGTH.recent
+): string[] {
+  return buildFromBatches(usernames, suffix, maxLength).map((b) => b.query);
+}
+
+/**
+ * buildFromQueries, keeping the accounts each query covers. Batches follow
+ * the order of `usernames`.
+ */
+export function buildFromBatches(
+  usernames: string[],
+  suffix: string = "",
+  maxLength: number = MAX_LENGTH.recent
+): { usernames: string[]; query: string }[] {
+  const batches: { usernames: string[]; query: string }[] = [];
+  let batch: string[] = [];
+
+  const render = (names: string[]) =>
+    `(${names.map((u) => `from:${u}`).join(" OR ")})${suffix}`;
+
+  for (const name of usernames) {
+    if (batch.length > 0 && render([...batch, name]).length > maxLength) {
+      batches.push({ usernames: batch, query: render(batch) });
+      batch = [];
+    }
+    batch.push(name);
+  }
+  if (batch.length > 0) batches.push({ usernames: batch, query: render(batch) });
+
+  return batches;
+}
+
+/**
+ * Where a batch of `from:` searches should start: only tweets after an ID,
+ * or after a time (ISO 8601). Neither means the whole recent window.
+ */
+export interface BatchStart {
+  sinceId?: string;
+  since?: string;
+}
+
+/**
+ * Get recent tweets from many accounts at once using batched `from:` searches
+ * instead of one user lookup + search per account.
+ * Returns tweets grouped by lowercased username.
+ *
+ * `startFor` picks each batch's lower bound from the accounts in it. A
+ * bounded batch pages until it runs out (up to `boundedPages`), since
+ * everything after the bound is new; an unbounded one stops at `pages`.
+ * When a batch still has more, `onTruncated` gets its usernames and the
+ * oldest tweet ID returned: anything older is missing. A batch that fails
+ * throws, or goes to `onBatchError` so the other batches still run.
+ */
+export async function recentFromUsers(
+  usernames: string[],
+  opts: {
+    pages?: number;
+    boundedPages?: number;
+    includeReplies?: boolean;
+    startFor?: (usernames: string[]) => BatchStart;
+    onTruncated?: (usernames: string[], oldestId?: string) => void;
+    onBatchError?: (usernames: string[], error: Error) => void;
+  } = {}
+): Promise<Record<string, Tweet[]>> {
+  const replyFilter = opts.includeReplies ? "" : " -is:reply";
+  const batches = buildFromBatches(usernames, ` -is:retweet${replyFilter}`);
+
+  const pages = opts.pages || 1;
+  ledger.checkBudget(
+    ledger.estimateCost(batches.length * pages * RECENT_MAX_RESULTS)
+  );
+
+  const grouped: Record<string, Tweet[]> = {};
+  for (const name of usernames) grouped[name.toLowerCase()] = [];
+
+  for (let i = 0; i < batches.length; i++) {
+    const batch = batches[i];
+    const start = opts.startFor?.(batch.usernames) || {};
+    const bounded = !!(start.sinceId || start.since);
+    let truncated = false;
+    let tweets: Tweet[];
+    try {
+      tweets = await search(batch.query, {
+        pages: bounded ? Math.max(opts.boundedPages || pages, pages) : pages,
+        sortOrder: "recency",
+        sinceId: start.sinceId,
+        since: start.sinceId ? undefined : start.since,
+        onTruncated: () => (truncated = true),
+        // A page that fails partway leaves a gap just like running out of pages
+        onPartial: () => (truncated = true),
+      });
+    } catch (e: any) {
+      if (!opts.onBatchError) throw e;
+      opts.onBatchError(batch.usernames, e);
+      tweets = [];
+    }
+    if (truncated) {
+      const oldest = tweets.reduce<string | undefined>(
+        (min, t) => (!min || BigInt(t.id) < BigInt(min) ? t.id : min),
+        undefined
+      );
+      opts.onTruncated?.(batch.usernames, oldest);
+    }
+    for (const t of tweets) {
+      grouped[t.username.toLowerCase()]?.push(t);
+    }
+    if (i < batches.length - 1) await sleep(RATE_DELAY_MS);
+  }
+
+  return grouped;
+}
+
 /**
  * Fetch a single tweet by ID.
  */
 export async function getTweet(tweetId: string): Promise<Tweet | null> {
-  const url = `${BASE}/tweets/${tweetId}?${FIELDS}`;
+  ledger.checkBudget(ledger.estimateCost(1));
+  const url = `${transport.baseUrl}/tweets/${tweetId}?${FIELDS}`;
   const raw = await apiGet(url);
 
   // Single tweet returns { data: {...}, includes: {...} }
@@ -294,6 +947,63 @@ export function sortBy(
   return [...tweets].sort((a, b) => b.metrics[metric] - a.metrics[metric]);
 }
 
+// Snapshots closer together than this are the same fetch, not a trend
+const MIN_SNAPSHOT_GAP_MS = 5 * 60_000;
+// Floor the age of brand-new tweets so a few early likes don't look infinite
+const MIN_AGE_HOURS = 0.25;
+
+/**
+ * Engagement per hour. Uses the change since the last snapshot at least a
+ * few minutes older than the newest one (from the local archive) when there
+ * is one, otherwise the lifetime average since created_at.
+ */
+export function velocity(
+  t: Tweet,
+  metric: VelocityMetric = "likes",
+  snapshots: store.MetricSnapshot[] = []
+): Velocity {
+  const latest = snapshots[snapshots.length - 1];
+  if (latest) {
+    const latestMs = new Date(latest.fetched_at).getTime();
+    const prev = [...snapshots]
+      .reverse()
+      .find((s) => latestMs - new Date(s.fetched_at).getTime() >= MIN_SNAPSHOT_GAP_MS);
+    if (prev) {
+      const hours = (latestMs - new Date(prev.fetched_at).getTime()) / 3_600_000;
+      return {
+        metric,
+        perHour: Math.max(t.metrics[metric] - prev[metric], 0) / hours,
+        basis: "delta",
+      };
+    }
+  }
+
+  const ageHours = Math.max(
+    (Date.now() - new Date(t.created_at).getTime()) / 3_600_000,
+    MIN_AGE_HOURS
+  );
+  return { metric, perHour: t.metrics[metric] / ageHours, basis: "lifetime" };
+}
+
+/**
+ * Sort tweets by engagement velocity, fastest-climbing first.
+ * Returned tweets carry their computed `velocity`.
+ */
+export function sortByVelocity(
+  tweets: Tweet[],
+  metric: VelocityMetric = "likes"
+): Tweet[] {
+  let snapshots = new Map<string, store.MetricSnapshot[]>();
+  try {
+    snapshots = store.history(tweets.map((t) => t.id));
+  } catch {
+    // No archive yet — fall back to lifetime velocity
+  }
+  return tweets
+    .map((t) => ({ ...t, velocity: velocity(t, metric, snapshots.get(t.id)) }))
+    .sort((a, b) => b.velocity.perHour - a.velocity.perHour);
+}
+
 /**
  * Filter tweets by minimum engagement.
  */
@@ -309,6 +1019,29 @@ export function filterEngagement(
   });
 }
 
+/**
+ * Keep only tweets with attached media, optionally of one type.
+ */
+export function filterMedia(
+  tweets: Tweet[],
+  opts: { type?: TweetMedia["type"] } = {}
+): Tweet[] {
+  return tweets.filter((t) =>
+    (t.media || []).some((m) => !opts.type || m.type === opts.type)
+  );
+}
+
+/**
+ * Newest tweet ID in a set (IDs are snowflakes, so compare numerically).
+ */
+export function newestId(tweets: Tweet[]): string | undefined {
+  let newest: string | undefined;
+  for (const t of tweets) {
+    if (!newest || BigInt(t.id) > BigInt(newest)) newest = t.id;
+  }
+  return newest;
+}
+
 /**
  * Deduplicate tweets by ID.
  */
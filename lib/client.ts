@@ -0,0 +1,726 @@
+/**
+ * Programmatic API for x-search, for Bun scripts and tools built on top of it.
+ * Wraps the whole search pipeline (query rewriting, cache, post-hoc filters,
+ * sorting), threads, profiles, quotes, the local archive and the watchlist,
+ * and returns data plus stats instead of printing. x-search.ts is a thin CLI
+ * over this class.
+ *
+ *   const client = new XResearchClient();
+ *   const { tweets, stats } = await client.search("bun runtime", { sort: "recent" });
+ *
+ * Stats are measured from the process-wide spend ledger, so run calls one at
+ * a time if you need exact per-call numbers.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import * as api from "./api";
+import * as cache from "./cache";
+import * as config from "./config";
+import * as ledger from "./ledger";
+import * as q from "./query";
+import * as store from "./store";
+import { analyzeAccount, type AccountStats } from "./analyze";
+import { rankVoices, type Voice, type VoiceRank } from "./voices";
+import { groupByDomain, rankLinks, type DomainStat, type LinkRank, type LinkStat } from "./links";
+import { analyzeVolume, type Volume } from "./volume";
+import type { FetchFn } from "./fixtures";
+
+const WATCHLIST_PATH = join(import.meta.dir, "..", "data", "watchlist.json");
+// Recent search rejects since_id values older than its 7-day window
+export const SINCE_ID_MAX_AGE_MS = 7 * 86_400_000 - 3_600_000;
+// Pages a watchlist batch with a since_id/start_time may page through to catch up
+const WATCHLIST_CATCH_UP_PAGES = 10;
+
+export type SortKey = "likes" | "impressions" | "retweets" | "recent" | "velocity";
+
+export interface SearchOptions {
+  quick?: boolean; // 1 page, -is:reply, 1hr cache TTL
+  quality?: boolean; // drop tweets under 10 likes
+  from?: string; // adds from:username
+  to?: string; // adds to:username (replies to)
+  url?: string; // adds url:domain-or-url
+  lang?: string; // adds lang:xx
+  has?: string[]; // adds has:links, has:mentions, ... (see query.HAS_VALUES)
+  archive?: boolean; // full-archive search
+  sort?: SortKey; // default likes
+  velocityMetric?: api.VelocityMetric; // for sort "velocity"
+  minLikes?: number;
+  minImpressions?: number;
+  pages?: number; // 1-5
+  since?: string; // 1h, 3d, 2024-01-15 or ISO 8601
+  until?: string;
+  sinceId?: string; // only tweets newer than this; skips the cache
+  noReplies?: boolean; // adds -is:reply
+  noRetweets?: boolean; // skip the automatic -is:retweet
+  hasMedia?: boolean;
+  mediaType?: api.TweetMedia["type"];
+  filters?: string[]; // noise-filter presets (built-in or config)
+  cache?: boolean; // default true
+}
+
+/**
+ * What a call cost (cache hits are free).
+ */
+export interface CallStats {
+  apiCalls: number;
+  postsRead: number;
+  usersLookedUp: number;
+  cost: number; // estimated USD
+}
+
+export interface SearchStats extends CallStats {
+  raw: number; // tweets fetched (what you pay for)
+  filtered: number; // after post-hoc filters
+  cached: boolean;
+  partial: boolean; // a later page failed; not cached
+  truncated: boolean; // more results past the last page fetched (false for cache hits)
+  newestId?: string; // newest raw tweet ID, for incremental polling
+  newestAt?: string; // its created_at
+}
+
+export interface SearchResult {
+  query: string; // after rewriting
+  tweets: api.Tweet[];
+  stats: SearchStats;
+}
+
+export interface ResearchResult {
+  queries: { query: string; raw: number; kept: number; cached: boolean }[];
+  tweets: api.Tweet[]; // merged, deduped, sorted
+  foundBy: Record<string, string[]>; // tweet ID → queries that found it
+  stats: CallStats & { raw: number; filtered: number };
+}
+
+export interface VoicesResult {
+  query: string; // after rewriting
+  voices: Voice[]; // ranked authors
+  tweets: api.Tweet[]; // the filtered tweets they were ranked over
+  stats: SearchStats;
+}
+
+export interface LinksResult {
+  query: string; // after rewriting
+  links: LinkStat[]; // ranked, normalized URLs
+  domains: DomainStat[];
+  tweets: api.Tweet[]; // the filtered tweets the links came from
+  stats: SearchStats;
+}
+
+export interface CountsResult {
+  query: string; // after rewriting
+  volume: Volume;
+  stats: CallStats;
+}
+
+export interface WatchlistAccount {
+  username: string;
+  note?: string;
+  addedAt: string;
+  // "New since last check" state, updated by watchlistCheck()
+  lastSeenId?: string;
+  lastSeenAt?: string;
+  lastCheckedAt?: string; // everything before this has been reported
+}
+
+export interface WatchlistDigestEntry {
+  username: string;
+  note?: string;
+  since?: string; // previous check
+  tweets: api.Tweet[];
+  cutOff?: boolean; // more new tweets than fit in the pages fetched; state not advanced
+  error?: string; // its batch failed; state not advanced
+}
+
+export interface WatchlistCheckResult {
+  checkedAt: string;
+  newTweets: number;
+  accounts: WatchlistDigestEntry[];
+  stats: CallStats;
+}
+
+export interface ClientOptions {
+  cacheTtlMs?: number; // default: config cache.ttl, else 15 min
+  quickCacheTtlMs?: number; // default: config cache.quickTtl, else 1 hr
+  watchlistPath?: string; // default: data/watchlist.json
+  log?: (message: string) => void; // progress notes (cache hits, partial pages)
+  // Point requests at a mock server or stub fetch (process-wide, see api.setTransport)
+  baseUrl?: string;
+  fetch?: FetchFn;
+}
+
+export class XResearchClient {
+  private opts: ClientOptions;
+
+  constructor(opts: ClientOptions = {}) {
+    this.opts = opts;
+    if (opts.baseUrl || opts.fetch) {
+      api.setTransport({
+        ...(opts.baseUrl && { baseUrl: opts.baseUrl }),
+        ...(opts.fetch && { fetch: opts.fetch }),
+      });
+    }
+  }
+
+  private log(message: string) {
+    this.opts.log?.(message);
+  }
+
+  /**
+   * Run `fn` and report what it spent, from the ledger's running totals.
+   */
+  private async measure<T>(fn: () => Promise<T>): Promise<[T, CallStats]> {
+    const before = ledger.sessionTotals();
+    const result = await fn();
+    const after = ledger.sessionTotals();
+    return [
+      result,
+      {
+        apiCalls: after.calls - before.calls,
+        postsRead: after.posts - before.posts,
+        usersLookedUp: after.users - before.users,
+        cost: after.cost - before.cost,
+      },
+    ];
+  }
+
+  cacheTtl(quick: boolean = false): number {
+    if (quick && this.opts.quickCacheTtlMs !== undefined) return this.opts.quickCacheTtlMs;
+    if (!quick && this.opts.cacheTtlMs !== undefined) return this.opts.cacheTtlMs;
+    const ttl = config.load().cache || {};
+    return config.parseDuration((quick ? ttl.quickTtl : ttl.ttl) ?? (quick ? "1h" : "15m"));
+  }
+
+  // --- Search ---
+
+  /**
+   * Normalize a raw query, apply --from/--to/--url/--lang/--has, media,
+   * filter presets and the automatic noise filters, then validate it.
+   * Throws on a query the API would reject, before anything is spent.
+   */
+  buildQuery(raw: string, o: SearchOptions = {}): string {
+    const normalized = q.normalize(raw);
+    for (const warning of normalized.warnings) this.log(`⚠️  ${warning}`);
+    let query = normalized.query;
+    const terms: string[] = [];
+    const add = (term: string) => {
+      if (!terms.includes(term)) terms.push(term);
+    };
+
+    // Shorthands, unless the query already targets that user (an exclusion doesn't count)
+    if (o.from && q.findOperator(query, "from") !== "include") add(q.operator("from", o.from.replace(/^@/, "")));
+    if (o.to && q.findOperator(query, "to") !== "include") add(q.operator("to", o.to.replace(/^@/, "")));
+    if (o.url) add(q.operator("url", o.url));
+    if (o.lang && !q.findOperator(query, "lang")) add(q.operator("lang", o.lang.toLowerCase()));
+    for (const value of o.has || []) {
+      if (!q.findOperator(query, "has", value)) add(q.operator("has", value));
+    }
+
+    // Media filters: narrow the fetch with has:media, then filter by type locally
+    if ((o.hasMedia || o.mediaType) && !q.findOperator(query, "has", "media")) {
+      add("has:media");
+    }
+
+    // Named noise-filter presets (built-in or from config)
+    for (const name of o.filters || []) {
+      const preset = config.filterPreset(name);
+      if (preset && !query.includes(preset)) add(preset);
+    }
+
+    // Auto-add noise filters unless the query already says either way
+    const excludeRetweets = config.load().excludeRetweets ?? true;
+    if (!q.findOperator(query, "is", "retweet") && !o.noRetweets && excludeRetweets) {
+      add("-is:retweet");
+    }
+    if ((o.quick || o.noReplies) && !q.findOperator(query, "is", "reply")) {
+      add("-is:reply");
+    }
+
+    query = q.and(query, ...terms);
+    const errors = q.validate(query, { archive: o.archive });
+    if (errors.length > 0) {
+      throw new Error(`Invalid query "${query}":\n  - ${errors.join("\n  - ")}`);
+    }
+    return query;
+  }
+
+  /**
+   * Search (recent or full archive) through the cache, then filter and sort.
+   */
+  async search(rawQuery: string, o: SearchOptions = {}): Promise<SearchResult> {
+    const query = this.buildQuery(rawQuery, o);
+    const [fetched, spend] = await this.measure(() => this.fetch(query, o));
+    const tweets = this.filterAndSort(fetched.tweets, o);
+    const newestId = api.newestId(fetched.tweets);
+    return {
+      query,
+      tweets,
+      stats: {
+        ...spend,
+        raw: fetched.tweets.length,
+        filtered: tweets.length,
+        cached: fetched.cached,
+        partial: fetched.partial,
+        truncated: fetched.truncated,
+        newestId,
+        newestAt: fetched.tweets.find((t) => t.id === newestId)?.created_at,
+      },
+    };
+  }
+
+  /**
+   * Most a run of `queries` searches with these options could cost (cache
+   * hits would make it less). Check it against the budget before a command
+   * that makes several requests, so it can't stop over the cap partway.
+   */
+  estimateCost(o: SearchOptions = {}, queries: number = 1): number {
+    return ledger.estimateCost(queries * api.maxSearchPosts({ pages: this.pagesFor(o), archive: o.archive }));
+  }
+
+  private pagesFor(o: SearchOptions): number {
+    return o.quick ? 1 : Math.min(o.pages || 1, 5);
+  }
+
+  /**
+   * Raw (unfiltered) search results, from the cache when possible.
+   */
+  private async fetch(
+    query: string,
+    o: SearchOptions
+  ): Promise<{ tweets: api.Tweet[]; cached: boolean; partial: boolean; truncated: boolean }> {
+    const pages = this.pagesFor(o);
+    const sort = o.sort || "likes";
+    // Incremental fetches depend on sinceId, so they never share cache entries
+    // Mock / fixture runs never touch it either
+    const useCache = o.cache !== false && !o.sinceId && api.cacheable();
+
+    // Cache key does NOT include quick flag — shared between modes
+    let cacheParams = `sort=${sort}&pages=${pages}&since=${o.since || (o.archive ? "30d" : "7d")}`;
+    if (o.until) cacheParams += `&until=${o.until}`;
+    if (o.archive) cacheParams += "&archive=1";
+
+    if (useCache) {
+      const cached = cache.get(query, cacheParams, this.cacheTtl(o.quick));
+      if (cached) {
+        this.log(`(cached — ${cached.length} tweets)`);
+        return { tweets: cached, cached: true, partial: false, truncated: false };
+      }
+    }
+
+    let partial = false;
+    let truncated = false;
+    const tweets = await api.search(query, {
+      pages,
+      // Velocity and incremental polling are about fresh tweets, so fetch newest first
+      sortOrder: sort === "recent" || sort === "velocity" || o.sinceId ? "recency" : "relevancy",
+      since: o.sinceId ? undefined : o.since,
+      until: o.until,
+      sinceId: o.sinceId,
+      archive: o.archive,
+      onPartial: (e, fetched) => {
+        partial = true;
+        this.log(
+          `⚠️  Later page failed (${e.message}) — showing partial results (${fetched} tweets), not cached`
+        );
+      },
+      onTruncated: () => (truncated = true),
+    });
+    if (useCache && !partial) cache.set(query, cacheParams, tweets);
+    return { tweets, cached: false, partial, truncated };
+  }
+
+  /**
+   * Apply post-hoc filters (engagement, media), sort and dedupe.
+   */
+  filterAndSort(tweets: api.Tweet[], o: SearchOptions = {}): api.Tweet[] {
+    if (o.minLikes || o.minImpressions) {
+      tweets = api.filterEngagement(tweets, {
+        minLikes: o.minLikes || undefined,
+        minImpressions: o.minImpressions || undefined,
+      });
+    }
+
+    // quality: post-hoc filter for min 10 likes (min_faves not available as a search operator)
+    if (o.quality) {
+      tweets = api.filterEngagement(tweets, { minLikes: 10 });
+    }
+
+    if (o.hasMedia || o.mediaType) {
+      tweets = api.filterMedia(tweets, { type: o.mediaType });
+    }
+
+    return api.dedupe(this.sort(tweets, o));
+  }
+
+  sort(tweets: api.Tweet[], o: SearchOptions = {}): api.Tweet[] {
+    const sort = o.sort || "likes";
+    if (sort === "recent") return tweets;
+    if (sort === "velocity") return api.sortByVelocity(tweets, o.velocityMetric || "likes");
+    return api.sortBy(tweets, sort);
+  }
+
+  /**
+   * Run several queries with the same options and merge them into one
+   * deduped, sorted set, remembering which queries found each tweet.
+   */
+  async research(
+    rawQueries: string[],
+    o: SearchOptions = {},
+    onQuery?: (query: string) => void
+  ): Promise<ResearchResult> {
+    const queries: ResearchResult["queries"] = [];
+    const foundBy: Record<string, string[]> = {};
+    let merged: api.Tweet[] = [];
+    let raw = 0;
+
+    // Build (and validate) every query, and check the budget for all of
+    // them, before spending on any
+    const built = rawQueries.map((rawQuery) => this.buildQuery(rawQuery, o));
+    ledger.checkBudget(this.estimateCost(o, built.length));
+
+    const [, spend] = await this.measure(async () => {
+      for (const query of built) {
+        onQuery?.(query);
+        const fetched = await this.fetch(query, o);
+        const tweets = this.filterAndSort(fetched.tweets, o);
+        raw += fetched.tweets.length;
+        queries.push({ query, raw: fetched.tweets.length, kept: tweets.length, cached: fetched.cached });
+        for (const t of tweets) {
+          (foundBy[t.id] ||= []).push(query);
+        }
+        merged.push(...tweets);
+      }
+    });
+
+    merged = this.sort(api.dedupe(merged), o);
+    return { queries, tweets: merged, foundBy, stats: { ...spend, raw, filtered: merged.length } };
+  }
+
+  /**
+   * Search, then rank the authors of the results. Follower counts come from
+   * the response, or the local archive for cached results that predate them.
+   */
+  async voices(
+    rawQuery: string,
+    o: SearchOptions & { rank?: VoiceRank; minTweets?: number } = {}
+  ): Promise<VoicesResult> {
+    const { query, tweets, stats } = await this.search(rawQuery, o);
+
+    const unknown = tweets.filter((t) => t.author_followers === undefined);
+    if (unknown.length > 0) {
+      const known = store.users([...new Set(unknown.map((t) => t.author_id))]);
+      for (const t of unknown) {
+        t.author_followers = known.get(t.author_id)?.public_metrics?.followers_count;
+      }
+    }
+
+    const voices = rankVoices(tweets, { rank: o.rank, minTweets: o.minTweets });
+    return { query, voices, tweets, stats };
+  }
+
+  /**
+   * Search, then rank every link the results point to and group them by domain.
+   */
+  async links(
+    rawQuery: string,
+    o: SearchOptions & { rank?: LinkRank; minTweets?: number } = {}
+  ): Promise<LinksResult> {
+    const { query, tweets, stats } = await this.search(rawQuery, o);
+    const links = rankLinks(tweets, { rank: o.rank, minTweets: o.minTweets });
+    return { query, links, domains: groupByDomain(links, tweets), tweets, stats };
+  }
+
+  /**
+   * Tweet volume over time for a query, with spikes flagged. Built like a
+   * search query (from/lang/has/... and -is:retweet apply), but reads no posts.
+   */
+  async counts(
+    rawQuery: string,
+    o: SearchOptions & { granularity?: api.Granularity; threshold?: number } = {}
+  ): Promise<CountsResult> {
+    const query = this.buildQuery(rawQuery, o);
+    const granularity = o.granularity || "hour";
+    const [result, stats] = await this.measure(() =>
+      api.counts(query, { granularity, since: o.since, until: o.until, archive: o.archive })
+    );
+    const volume = analyzeVolume(result.buckets, {
+      granularity,
+      total: result.total,
+      threshold: o.threshold,
+    });
+    return { query, volume, stats };
+  }
+
+  /**
+   * Full-text search over the local archive (offline, free).
+   */
+  local(query: string, o: SearchOptions = {}): SearchResult {
+    const matched = store.search(query, {
+      since: o.since ? api.parseTime(o.since, "--since") : undefined,
+      until: o.until ? api.parseTime(o.until, "--until") : undefined,
+    });
+    const tweets = this.filterAndSort(matched, o);
+    return {
+      query,
+      tweets,
+      stats: {
+        apiCalls: 0,
+        postsRead: 0,
+        usersLookedUp: 0,
+        cost: 0,
+        raw: matched.length,
+        filtered: tweets.length,
+        cached: true,
+        partial: false,
+        truncated: false,
+      },
+    };
+  }
+
+  // --- Conversations, users, single tweets ---
+
+  /**
+   * The conversation containing a tweet (root or any reply) as a reply tree;
+   * tree is null if nothing was found.
+   */
+  async thread(
+    tweetId: string,
+    opts: { pages?: number } = {}
+  ): Promise<{ tweets: api.Tweet[]; tree: api.ThreadTree | null; stats: CallStats }> {
+    const pages = Math.min(opts.pages || 2, 5);
+    let conversationId = tweetId;
+    const [tweets, stats] = await this.measure(async () => {
+      // Look the tweet up (one post) for its conversation_id: a reply's own
+      // ID isn't the conversation's, and guessing costs a search page
+      let tweet: api.Tweet | null = null;
+      try {
+        tweet = await api.getTweet(tweetId);
+      } catch {
+        // Deleted or unavailable: try the ID as the root
+      }
+      if (tweet?.conversation_id) conversationId = tweet.conversation_id;
+      return api.thread(conversationId, { pages, root: tweet?.id === conversationId ? tweet : undefined });
+    });
+    return { tweets, tree: tweets.length > 0 ? api.threadTree(tweets, conversationId) : null, stats };
+  }
+
+  async profile(
+    username: string,
+    opts: { count?: number; includeReplies?: boolean } = {}
+  ): Promise<{ user: any; tweets: api.Tweet[]; stats: CallStats }> {
+    const [result, stats] = await this.measure(() =>
+      api.profile(username.replace(/^@/, ""), {
+        count: opts.count || 20,
+        includeReplies: opts.includeReplies,
+      })
+    );
+    return { ...result, stats };
+  }
+
+  /**
+   * Account analytics over up to `pages` × 100 of the user's recent tweets
+   * (500 per page with `archive`; pair it with `since` to reach past 7 days).
+   */
+  async analyze(
+    username: string,
+    opts: { pages?: number; includeReplies?: boolean; archive?: boolean; since?: string; top?: number } = {}
+  ): Promise<{ user: any; tweets: api.Tweet[]; account: AccountStats; stats: CallStats }> {
+    const [result, stats] = await this.measure(() =>
+      api.profile(username.replace(/^@/, ""), {
+        count: opts.archive ? 500 : 100,
+        pages: Math.min(opts.pages || 3, 5),
+        includeReplies: opts.includeReplies,
+        archive: opts.archive,
+        since: opts.since,
+      })
+    );
+    return { ...result, account: analyzeAccount(result.user, result.tweets, { top: opts.top }), stats };
+  }
+
+  async tweet(tweetId: string): Promise<{ tweet: api.Tweet | null; stats: CallStats }> {
+    const [tweet, stats] = await this.measure(() => api.getTweet(tweetId));
+    return { tweet, stats };
+  }
+
+  /**
+   * Quote tweets of a tweet. The quoted original is returned once as
+   * `original` and stripped from each quote.
+   */
+  async quotes(
+    tweetId: string,
+    opts: { pages?: number; sort?: SortKey } = {}
+  ): Promise<{ original?: api.Tweet; tweets: api.Tweet[]; stats: CallStats }> {
+    const [fetched, stats] = await this.measure(() =>
+      api.quotes(tweetId, { pages: Math.min(opts.pages || 1, 5) })
+    );
+    const original = fetched.find((t) => t.quoted?.id === tweetId)?.quoted;
+    const tweets = fetched.map((t) => (t.quoted?.id === tweetId ? { ...t, quoted: undefined } : t));
+    return { original, tweets: this.sort(tweets, { sort: opts.sort }), stats };
+  }
+
+  // --- Watchlist ---
+
+  private watchlistPath(): string {
+    return this.opts.watchlistPath || WATCHLIST_PATH;
+  }
+
+  watchlist(): WatchlistAccount[] {
+    const path = this.watchlistPath();
+    if (!existsSync(path)) return [];
+    return JSON.parse(readFileSync(path, "utf-8")).accounts || [];
+  }
+
+  private saveWatchlist(accounts: WatchlistAccount[]) {
+    writeFileSync(this.watchlistPath(), JSON.stringify({ accounts }, null, 2));
+  }
+
+  /**
+   * Add an account. Returns false if it was already on the watchlist.
+   */
+  watchlistAdd(username: string, note?: string): boolean {
+    const name = username.replace(/^@/, "");
+    const accounts = this.watchlist();
+    if (accounts.some((a) => a.username.toLowerCase() === name.toLowerCase())) return false;
+    accounts.push({ username: name, note, addedAt: new Date().toISOString() });
+    this.saveWatchlist(accounts);
+    return true;
+  }
+
+  /**
+   * Remove an account. Returns false if it wasn't on the watchlist.
+   */
+  watchlistRemove(username: string): boolean {
+    const name = username.replace(/^@/, "").toLowerCase();
+    const accounts = this.watchlist();
+    const kept = accounts.filter((a) => a.username.toLowerCase() !== name);
+    this.saveWatchlist(kept);
+    return kept.length < accounts.length;
+  }
+
+  /**
+   * Tweets posted since each account's last check, then advance that state.
+   * The first check of an account has no baseline, so it only returns the
+   * latest 3. Each batched query starts at its own accounts' baseline and
+   * pages until it catches up. An account whose new tweets still ran past
+   * that, or whose batch failed, keeps its old state, so the missing tweets
+   * come back next check. If `beforeSave` throws (e.g. a webhook failed),
+   * the state is not saved and the next check returns the same tweets.
+   */
+  async watchlistCheck(
+    opts: { pages?: number; beforeSave?: (result: WatchlistCheckResult) => Promise<void> } = {}
+  ): Promise<WatchlistCheckResult> {
+    const accounts = this.watchlist();
+    const checkedAt = new Date().toISOString();
+    const digest: WatchlistDigestEntry[] = [];
+    const byName = new Map(accounts.map((a) => [a.username.toLowerCase(), a]));
+
+    const inWindow = (iso?: string) =>
+      !!iso && Date.now() - new Date(iso).getTime() < SINCE_ID_MAX_AGE_MS;
+    const hasSinceId = (a: WatchlistAccount) => !!a.lastSeenId && inWindow(a.lastSeenAt);
+    // Batch accounts with like baselines together: since_id first, then
+    // time-only (dormant), then never checked, which only show their latest 3
+    const tier = (a: WatchlistAccount) => (!a.lastCheckedAt ? 2 : hasSinceId(a) ? 0 : 1);
+    const ordered = [...accounts].sort(
+      (a, b) =>
+        tier(a) - tier(b) ||
+        (tier(a) === 0
+          ? Number(BigInt(a.lastSeenId!) - BigInt(b.lastSeenId!))
+          : (a.lastCheckedAt || "").localeCompare(b.lastCheckedAt || ""))
+    );
+
+    // since_id is shared by a batch, so use the oldest last-seen ID in it. If
+    // an account has none usable (nothing posted in the window), fall back to
+    // the oldest last check as start_time. Never-checked accounts don't hold
+    // the bound back, and anything older than the window can't be returned.
+    const startFor = (usernames: string[]): api.BatchStart => {
+      const checked = usernames.map((n) => byName.get(n.toLowerCase())!).filter((a) => a.lastCheckedAt);
+      if (checked.length === 0) return {};
+      if (checked.every(hasSinceId)) {
+        return {
+          sinceId: checked
+            .map((a) => a.lastSeenId!)
+            .reduce((min, id) => (BigInt(id) < BigInt(min) ? id : min)),
+        };
+      }
+      const since = checked.map((a) => a.lastCheckedAt!).sort()[0];
+      return inWindow(since) ? { since } : {};
+    };
+
+    const pages = Math.min(opts.pages || 1, 5);
+    // Oldest tweet ID returned, for accounts whose batch had more to fetch
+    const truncated = new Map<string, string | undefined>();
+    const failed = new Map<string, string>();
+    const [grouped, stats] = await this.measure(
+      async (): Promise<Record<string, api.Tweet[]>> =>
+        accounts.length > 0
+          ? api.recentFromUsers(
+              ordered.map((a) => a.username),
+              {
+                pages,
+                boundedPages: WATCHLIST_CATCH_UP_PAGES,
+                startFor,
+                onTruncated: (usernames, oldestId) => {
+                  for (const name of usernames) truncated.set(name.toLowerCase(), oldestId);
+                },
+                onBatchError: (usernames, e) => {
+                  this.log(`⚠️  Batch of ${usernames.length} accounts failed (${e.message}) — they'll be retried next check`);
+                  for (const name of usernames) failed.set(name.toLowerCase(), e.message);
+                },
+              }
+            )
+          : {}
+    );
+    if (accounts.length > 0 && failed.size === accounts.length) {
+      throw new Error(`Watchlist check failed: ${[...failed.values()][0]}`);
+    }
+
+    for (const acct of accounts) {
+      const key = acct.username.toLowerCase();
+      const error = failed.get(key);
+      const tweets = (grouped[key] || []).filter(
+        (t) => !acct.lastSeenId || BigInt(t.id) > BigInt(acct.lastSeenId)
+      );
+      // Tweets between the baseline and the oldest one returned may be
+      // missing. Without a baseline (or one past the window, which can't be
+      // caught up) only what was fetched counts.
+      const oldest = truncated.get(key);
+      const cutOff =
+        !error &&
+        truncated.has(key) &&
+        inWindow(acct.lastCheckedAt) &&
+        (!oldest || !acct.lastSeenId || BigInt(oldest) > BigInt(acct.lastSeenId));
+      digest.push({
+        username: acct.username,
+        note: acct.note,
+        since: acct.lastCheckedAt,
+        tweets: acct.lastCheckedAt ? tweets : tweets.slice(0, 3),
+        ...(cutOff ? { cutOff } : {}),
+        ...(error ? { error } : {}),
+      });
+      if (error) continue;
+
+      if (cutOff) {
+        this.log(
+          `⚠️  @${acct.username}: more new tweets than one check could fetch — not marking them seen`
+        );
+        continue;
+      }
+      const newest = api.newestId(tweets);
+      if (newest) {
+        acct.lastSeenId = newest;
+        acct.lastSeenAt = tweets.find((t) => t.id === newest)!.created_at;
+      }
+      acct.lastCheckedAt = checkedAt;
+    }
+
+    const result: WatchlistCheckResult = {
+      checkedAt,
+      newTweets: digest.reduce((n, d) => n + d.tweets.length, 0),
+      accounts: digest,
+      stats,
+    };
+    await opts.beforeSave?.(result);
+    this.saveWatchlist(accounts);
+    return result;
+  }
+}
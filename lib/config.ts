@@ -0,0 +1,200 @@
+/**
+ * Config for x-search: default flags, noise-filter presets, cache TTLs,
+ * token source, --save destination and --notify webhook.
+ *
+ * Two layers, later wins:
+ *   1. per-user       ~/.config/x-search/config.json (or X_SEARCH_CONFIG)
+ *   2. per-directory  .x-search.json in the working directory or nearest parent
+ * Every key is optional.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { dirname, isAbsolute, join, resolve } from "path";
+import { homedir } from "os";
+
+export type FlagValue = string | number | boolean;
+
+export interface SaveConfig {
+  dir?: string; // where --save writes; ~ is expanded
+  filename?: string; // template: {slug} {date} {time} {command}
+}
+
+/**
+ * Where to read the bearer token from. First one set wins; falls back to
+ * X_BEARER_TOKEN / ~/.config/env/global.env.
+ */
+export interface TokenSource {
+  command?: string; // shell command that prints the token (user config only)
+  env?: string; // env var name
+  file?: string; // file holding the token, or an env file with X_BEARER_TOKEN=
+}
+
+/**
+ * Webhook for --notify. template: slack | discord | json (default: guessed from the URL).
+ */
+export interface NotifyConfig {
+  url?: string;
+  template?: string;
+  headers?: Record<string, string>;
+}
+
+export interface Config {
+  defaults?: Record<string, FlagValue>; // flag name (no --) → value, all commands
+  commands?: Record<string, Record<string, FlagValue>>; // per-command, beats defaults
+  filters?: Record<string, string>; // named presets for --filter
+  excludeRetweets?: boolean; // auto-add -is:retweet to searches (default true)
+  cache?: { ttl?: string | number; quickTtl?: string | number }; // "15m", "1h", or ms
+  token?: TokenSource;
+  save?: SaveConfig;
+  notify?: NotifyConfig;
+}
+
+export const USER_CONFIG_PATH = join(homedir(), ".config", "x-search", "config.json");
+export const DIR_CONFIG_NAME = ".x-search.json";
+
+/**
+ * Built-in noise-filter presets. Config `filters` can add to or replace these.
+ */
+export const BUILTIN_FILTERS: Record<string, string> = {
+  crypto: "-$ -airdrop -giveaway -whitelist",
+};
+
+let loaded: Config | null = null;
+let loadedFrom: string[] = [];
+
+export function configPath(): string {
+  return process.env.X_SEARCH_CONFIG || USER_CONFIG_PATH;
+}
+
+/**
+ * Nearest .x-search.json from the working directory up to the filesystem root.
+ */
+export function dirConfigPath(from: string = process.cwd()): string | undefined {
+  let dir = resolve(from);
+  while (true) {
+    const candidate = join(dir, DIR_CONFIG_NAME);
+    if (existsSync(candidate)) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+function readConfig(path: string): Config {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as Config;
+  } catch (e: any) {
+    throw new Error(`Invalid config ${path}: ${e.message}`);
+  }
+}
+
+/**
+ * Merge two layers one level deep: objects merge key by key, everything
+ * else is replaced.
+ */
+function merge(base: Config, over: Config): Config {
+  const out: any = { ...base };
+  for (const [key, value] of Object.entries(over)) {
+    const prev = out[key];
+    out[key] =
+      value && typeof value === "object" && !Array.isArray(value) && prev && typeof prev === "object"
+        ? { ...prev, ...value }
+        : value;
+  }
+  // commands.<name> should merge per command, not replace
+  if (base.commands && over.commands) {
+    for (const [name, flags] of Object.entries(over.commands)) {
+      out.commands[name] = { ...base.commands[name], ...flags };
+    }
+  }
+  return out;
+}
+
+/**
+ * Load and merge the config layers once per process. A missing file is an
+ * empty layer; a malformed one is an error, so typos don't silently fall
+ * back to defaults.
+ */
+export function load(): Config {
+  if (loaded) return loaded;
+  let config: Config = {};
+  loadedFrom = [];
+
+  const userPath = configPath();
+  if (existsSync(userPath)) {
+    config = readConfig(userPath);
+    loadedFrom.push(userPath);
+  }
+
+  const dirPath = dirConfigPath();
+  if (dirPath && resolve(dirPath) !== resolve(userPath)) {
+    const layer = readConfig(dirPath);
+    // A checked-out repo shouldn't be able to run commands on your machine
+    if (layer.token?.command) {
+      console.error(`⚠️  Ignoring token.command in ${dirPath} (only allowed in ${userPath})`);
+      delete layer.token.command;
+    }
+    // Relative save dirs are relative to the project, not wherever you ran from
+    if (layer.save?.dir && !isAbsolute(expandHome(layer.save.dir))) {
+      layer.save.dir = resolve(dirname(dirPath), layer.save.dir);
+    }
+    config = merge(config, layer);
+    loadedFrom.push(dirPath);
+  }
+
+  return (loaded = config);
+}
+
+/**
+ * Config files that contributed to load(), lowest precedence first.
+ */
+export function sources(): string[] {
+  load();
+  return [...loadedFrom];
+}
+
+/**
+ * Configured default for a flag: commands.<command>.<flag>, then defaults.<flag>.
+ */
+export function flagDefault(command: string, flag: string): FlagValue | undefined {
+  const config = load();
+  return config.commands?.[command]?.[flag] ?? config.defaults?.[flag];
+}
+
+/**
+ * Look up a noise-filter preset (config first, then built-ins).
+ */
+export function filterPreset(name: string): string {
+  const presets = { ...BUILTIN_FILTERS, ...load().filters };
+  const preset = presets[name];
+  if (preset === undefined) {
+    throw new Error(
+      `Unknown filter preset "${name}" (available: ${Object.keys(presets).join(", ")})`
+    );
+  }
+  return preset;
+}
+
+export function filterNames(): string[] {
+  return Object.keys({ ...BUILTIN_FILTERS, ...load().filters });
+}
+
+/**
+ * Parse a duration like "90s", "15m", "1h", "2d", or a number of milliseconds.
+ */
+export function parseDuration(value: string | number): number {
+  if (typeof value === "number") return value;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/);
+  if (!match) throw new Error(`Invalid duration "${value}" (use e.g. 90s, 15m, 1h, 2d)`);
+  const unit = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[
+    (match[2] || "ms") as "ms" | "s" | "m" | "h" | "d"
+  ];
+  return parseFloat(match[1]) * unit;
+}
+
+/**
+ * Expand a leading ~ to the home directory.
+ */
+export function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
@@ -0,0 +1,106 @@
+/**
+ * Record/replay layer for X API responses.
+ * In record mode every request goes through to the real fetch and the
+ * response is written to a fixture file; in replay mode responses come
+ * from those files and nothing touches the network. Fixtures hold the
+ * request path and the response only — never the bearer token.
+ *
+ * Fixtures are keyed by path + query string minus start_time/end_time, so
+ * relative --since values still match when replayed later, and minus the
+ * base URL, so fixtures recorded against the mock server replay anywhere.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { createHash } from "crypto";
+
+export type FixtureMode = "record" | "replay";
+export type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface Fixture {
+  request: { method: string; path: string };
+  response: { status: number; headers: Record<string, string>; body: unknown };
+  recordedAt: string;
+}
+
+// Response headers worth keeping (rate limits drive retry behaviour)
+const KEPT_HEADERS = ["content-type", "x-rate-limit-limit", "x-rate-limit-remaining", "x-rate-limit-reset"];
+// Time-relative params that would change the key on every run
+const UNKEYED_PARAMS = ["start_time", "end_time"];
+
+/**
+ * Request path used as the fixture key: everything after the API version,
+ * with time-relative params dropped.
+ */
+export function fixturePath(url: string): string {
+  const u = new URL(url);
+  for (const param of UNKEYED_PARAMS) u.searchParams.delete(param);
+  const path = u.pathname.replace(/^.*?\/2\//, "/");
+  const query = u.searchParams.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Fixture file name: readable endpoint slug plus a hash of the full key.
+ */
+export function fixtureFile(dir: string, method: string, url: string): string {
+  const path = fixturePath(url);
+  const slug = path
+    .split("?")[0]
+    .replace(/^\//, "")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .slice(0, 60);
+  const hash = createHash("md5").update(`${method} ${path}`).digest("hex").slice(0, 10);
+  return join(dir, `${slug}-${hash}.json`);
+}
+
+/**
+ * Wrap a fetch so responses are recorded to / replayed from `dir`.
+ */
+export function withFixtures(inner: FetchFn, mode: FixtureMode, dir: string): FetchFn {
+  return async (url, init) => {
+    const method = init?.method || "GET";
+    const file = fixtureFile(dir, method, url);
+
+    if (mode === "replay") {
+      if (!existsSync(file)) {
+        const u = new URL(url);
+        const query = u.searchParams.get("query");
+        throw new Error(
+          `No fixture for ${method} ${u.pathname}${query ? ` "${query}"` : ""} ` +
+            `(expected ${file}; record it with X_API_FIXTURES=record)`
+        );
+      }
+      const fixture = JSON.parse(readFileSync(file, "utf-8")) as Fixture;
+      const body = fixture.response.body;
+      return new Response(typeof body === "string" ? body : JSON.stringify(body), {
+        status: fixture.response.status,
+        headers: fixture.response.headers,
+      });
+    }
+
+    const res = await inner(url, init);
+    const text = await res.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Keep non-JSON bodies (HTML error pages) as text
+    }
+    const headers: Record<string, string> = {};
+    for (const name of KEPT_HEADERS) {
+      const value = res.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+
+    const fixture: Fixture = {
+      request: { method, path: fixturePath(url) },
+      response: { status: res.status, headers, body },
+      recordedAt: new Date().toISOString(),
+    };
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(file, JSON.stringify(fixture, null, 2));
+
+    return new Response(text, { status: res.status, headers: res.headers });
+  };
+}
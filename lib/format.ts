@@ -2,14 +2,22 @@
  * Format tweets for Telegram or markdown output.
  */
 
-import type { Tweet } from "./api";
+import type { Tweet, TweetMedia, TweetPoll, ThreadNode, ThreadTree } from "./api";
+import { WEEKDAYS, type AccountStats } from "./analyze";
+import type { Voice } from "./voices";
+import type { DomainStat, LinkStat } from "./links";
+import type { Volume } from "./volume";
 
-function compactNumber(n: number): string {
+export function compactNumber(n: number): string {
   if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
   if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
   return String(n);
 }
 
+export function cleanTcoLinks(text: string): string {
+  return text.replace(/https:\/\/t\.co\/\S+/g, "").trim();
+}
+
 function timeAgo(dateStr: string): string {
   const diff = Date.now() - new Date(dateStr).getTime();
   const mins = Math.floor(diff / 60_000);
@@ -20,6 +28,51 @@ function timeAgo(dateStr: string): string {
   return `${days}d`;
 }
 
+const MEDIA_LABELS: Record<TweetMedia["type"], [string, string, string]> = {
+  photo: ["📷", "image", "images"],
+  video: ["🎥", "video", "videos"],
+  animated_gif: ["🎞", "GIF", "GIFs"],
+};
+
+const VELOCITY_ICONS = { likes: "❤️", impressions: "👁", retweets: "🔁" };
+
+/**
+ * e.g. "⚡ 120❤️/h" — "Δ" marks a rate measured between two fetches.
+ */
+function velocityLabel(t: Tweet): string {
+  const v = t.velocity!;
+  const delta = v.basis === "delta" ? "Δ" : "";
+  return `⚡ ${delta}${compactNumber(Math.round(v.perHour))}${VELOCITY_ICONS[v.metric]}/h`;
+}
+
+/**
+ * Summarize attached media, e.g. "📷 2 images · 🎥 1 video (12.3K views)".
+ */
+function mediaSummary(media: TweetMedia[]): string {
+  const parts: string[] = [];
+  for (const type of Object.keys(MEDIA_LABELS) as TweetMedia["type"][]) {
+    const items = media.filter((m) => m.type === type);
+    if (items.length === 0) continue;
+    const [icon, one, many] = MEDIA_LABELS[type];
+    const views = items.reduce((n, m) => n + (m.views || 0), 0);
+    const viewLabel = views > 0 ? ` (${compactNumber(views)} views)` : "";
+    parts.push(`${icon} ${items.length} ${items.length === 1 ? one : many}${viewLabel}`);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Summarize poll results, e.g. "Yes 62% · No 38% (1.2K votes, closed)".
+ */
+function pollSummary(poll: TweetPoll): string {
+  const total = poll.options.reduce((n, o) => n + o.votes, 0);
+  const options = poll.options
+    .map((o) => `${o.label} ${total > 0 ? Math.round((o.votes / total) * 100) : 0}%`)
+    .join(" · ");
+  const status = poll.status ? `, ${poll.status}` : "";
+  return `${options} (${compactNumber(total)} votes${status})`;
+}
+
 /**
  * Format a single tweet for Telegram (monospace-friendly).
  */
@@ -27,14 +80,34 @@ export function formatTweetTelegram(t: Tweet, index?: number, opts?: { full?: bo
   const prefix = index !== undefined ? `${index + 1}. ` : "";
   const engagement = `${compactNumber(t.metrics.likes)}❤️ ${compactNumber(t.metrics.impressions)}👁`;
   const time = timeAgo(t.created_at);
+  const rising = t.velocity ? ` · ${velocityLabel(t)}` : "";
+
+  // Retweets carry truncated "RT @user: ..." text — show the original instead
+  const body = t.retweeted
+    ? `🔁 @${t.retweeted.username}: ${t.retweeted.text}`
+    : t.text;
 
   // Truncate text to 200 chars for summary view, full text for single tweet/thread
-  const text = opts?.full || t.text.length <= 200 ? t.text : t.text.slice(0, 197) + "...";
+  const text = opts?.full || body.length <= 200 ? body : body.slice(0, 197) + "...";
   // Clean up t.co links from text
-  const cleanText = text.replace(/https:\/\/t\.co\/\S+/g, "").trim();
+  const cleanText = cleanTcoLinks(text);
 
-  let out = `${prefix}@${t.username} (${engagement} · ${time})\n${cleanText}`;
+  let out = `${prefix}@${t.username} (${engagement} · ${time}${rising})\n${cleanText}`;
 
+  if (t.quoted) {
+    const q = t.quoted;
+    const qText = cleanTcoLinks(
+      opts?.full || q.text.length <= 140 ? q.text : q.text.slice(0, 137) + "..."
+    );
+    out += `\n  ↪ @${q.username}: ${qText.replace(/\n/g, "\n    ")}`;
+  }
+
+  if (t.media?.length) {
+    out += `\n${mediaSummary(t.media)}`;
+  }
+  if (t.poll) {
+    out += `\n📊 Poll: ${pollSummary(t.poll)}`;
+  }
   if (t.urls.length > 0) {
     out += `\n🔗 ${t.urls[0]}`;
   }
@@ -71,12 +144,37 @@ export function formatResultsTelegram(
  * Format a single tweet for markdown (research docs).
  */
 export function formatTweetMarkdown(t: Tweet): string {
-  const engagement = `${t.metrics.likes}L ${t.metrics.impressions}I`;
-  const cleanText = t.text.replace(/https:\/\/t\.co\/\S+/g, "").trim();
+  const velocity = t.velocity
+    ? ` ${Math.round(t.velocity.perHour)}${t.velocity.metric[0].toUpperCase()}/h${t.velocity.basis === "delta" ? " Δ" : ""}`
+    : "";
+  const engagement = `${t.metrics.likes}L ${t.metrics.impressions}I${velocity}`;
+  const body = t.retweeted
+    ? `🔁 @${t.retweeted.username}: ${t.retweeted.text}`
+    : t.text;
+  const cleanText = cleanTcoLinks(body);
   const quoted = cleanText.replace(/\n/g, "\n  > ");
 
   let out = `- **@${t.username}** (${engagement}) [Tweet](${t.tweet_url})\n  > ${quoted}`;
 
+  if (t.quoted) {
+    const q = t.quoted;
+    const qText = cleanTcoLinks(q.text).replace(/\n/g, "\n  > > ");
+    out += `\n  >\n  > ↪ Quoting **@${q.username}** [Tweet](${q.tweet_url}):\n  > > ${qText}`;
+  }
+
+  if (t.media?.length) {
+    const items = t.media.map((m) => {
+      const label = MEDIA_LABELS[m.type][1];
+      const link = m.url || m.preview_url;
+      const alt = m.alt_text ? ` — "${m.alt_text.replace(/\s+/g, " ")}"` : "";
+      const views = m.views ? ` (${compactNumber(m.views)} views)` : "";
+      return (link ? `[${label}](${link})` : label) + views + alt;
+    });
+    out += `\n  Media: ${items.join(", ")}`;
+  }
+  if (t.poll) {
+    out += `\n  Poll: ${pollSummary(t.poll)}`;
+  }
   if (t.urls.length > 0) {
     out += `\n  Links: ${t.urls.map((u) => `[${new URL(u).hostname}](${u})`).join(", ")}`;
   }
@@ -84,19 +182,37 @@ export function formatTweetMarkdown(t: Tweet): string {
   return out;
 }
 
+const MAX_THEME_TWEETS = 10;
+
+export interface ResearchMarkdownOptions {
+  themes?: { title: string; tweetIds: string[] }[];
+  apiCalls?: number;
+  queries?: string[];
+  timeRange?: string;
+  foundBy?: Record<string, string[]>; // tweet ID → queries that returned it
+  scanned?: number; // raw tweets read, before filters/dedupe
+  cost?: number; // actual spend, if known (defaults to an estimate)
+}
+
 /**
  * Format results as a full markdown research document.
  */
 export function formatResearchMarkdown(
   query: string,
   tweets: Tweet[],
-  opts: {
-    themes?: { title: string; tweetIds: string[] }[];
-    apiCalls?: number;
-    queries?: string[];
-  } = {}
+  opts: ResearchMarkdownOptions = {}
 ): string {
   const date = new Date().toISOString().split("T")[0];
+  const queries = opts.queries || [];
+  const foundBy = opts.foundBy;
+
+  // With several queries, note which one(s) surfaced each tweet as Q1, Q2...
+  const formatTweet = (t: Tweet) => {
+    const md = formatTweetMarkdown(t);
+    if (!foundBy?.[t.id] || queries.length < 2) return md;
+    const labels = foundBy[t.id].map((q) => `Q${queries.indexOf(q) + 1}`);
+    return `${md}\n  _Found by: ${labels.join(", ")}_`;
+  };
 
   let out = `# X Research: ${query}\n\n`;
   out += `**Date:** ${date}\n`;
@@ -108,7 +224,10 @@ export function formatResearchMarkdown(
       const themeTweets = theme.tweetIds
         .map((id) => tweets.find((t) => t.id === id))
         .filter(Boolean) as Tweet[];
-      out += themeTweets.map(formatTweetMarkdown).join("\n\n");
+      out += themeTweets.slice(0, MAX_THEME_TWEETS).map(formatTweet).join("\n\n");
+      if (themeTweets.length > MAX_THEME_TWEETS) {
+        out += `\n\n_+${themeTweets.length - MAX_THEME_TWEETS} more_`;
+      }
       out += "\n\n";
     }
   } else {
@@ -116,7 +235,7 @@ export function formatResearchMarkdown(
     out += `## Top Results (by engagement)\n\n`;
     out += tweets
       .slice(0, 30)
-      .map(formatTweetMarkdown)
+      .map(formatTweet)
       .join("\n\n");
     out += "\n\n";
   }
@@ -124,14 +243,112 @@ export function formatResearchMarkdown(
   out += `---\n\n## Research Metadata\n`;
   out += `- **Query:** ${query}\n`;
   out += `- **Date:** ${date}\n`;
+  if (opts.timeRange) out += `- **Time range:** ${opts.timeRange}\n`;
   if (opts.apiCalls) out += `- **API calls:** ${opts.apiCalls}\n`;
-  out += `- **Tweets scanned:** ${tweets.length}\n`;
-  out += `- **Est. cost:** ~$${((tweets.length * 0.005)).toFixed(2)}\n`;
-  if (opts.queries) {
+  const scanned = opts.scanned ?? tweets.length;
+  out += `- **Tweets scanned:** ${scanned}\n`;
+  if (scanned !== tweets.length) out += `- **Unique tweets kept:** ${tweets.length}\n`;
+  out += `- **Est. cost:** ~$${(opts.cost ?? scanned * 0.005).toFixed(2)}\n`;
+  if (queries.length > 0) {
     out += `- **Search queries:**\n`;
-    for (const q of opts.queries) {
-      out += `  - \`${q}\`\n`;
-    }
+    queries.forEach((q, i) => {
+      const label = queries.length > 1 ? `Q${i + 1}: ` : "";
+      const found = foundBy
+        ? ` (${Object.values(foundBy).filter((qs) => qs.includes(q)).length} tweets)`
+        : "";
+      out += `  - ${label}\`${q}\`${found}\n`;
+    });
+  }
+
+  return out;
+}
+
+const MAX_THREAD_INDENT = 6;
+
+function indent(text: string, depth: number, unit: string): string {
+  const pad = unit.repeat(Math.min(depth, MAX_THREAD_INDENT));
+  return text
+    .split("\n")
+    .map((line) => pad + line)
+    .join("\n");
+}
+
+/**
+ * Label a reply with the self-thread post it answers, e.g. "re 3/7".
+ */
+function selfThreadRef(tree: ThreadTree, t: Tweet): string {
+  const pos = tree.selfThread.findIndex((s) => s.id === t.in_reply_to_id);
+  if (pos < 0 || tree.selfThread.length < 2) return "";
+  return `re ${pos + 1}/${tree.selfThread.length}`;
+}
+
+function countNodes(nodes: ThreadNode[]): number {
+  return nodes.reduce((n, node) => n + 1 + countNodes(node.children), 0);
+}
+
+/**
+ * Format a conversation as a reply tree for Telegram.
+ */
+export function formatThreadTelegram(tree: ThreadTree): string {
+  const replyCount = countNodes(tree.replies);
+  let out = "";
+
+  if (tree.selfThread.length > 0) {
+    const author = tree.selfThread[0].username;
+    out += `🧵 @${author} — ${tree.selfThread.length} post(s), ${replyCount} replies\n\n`;
+    out += tree.selfThread
+      .map((t, i) => {
+        const pos = tree.selfThread.length > 1 ? `[${i + 1}/${tree.selfThread.length}] ` : "";
+        return pos + formatTweetTelegram(t, undefined, { full: true });
+      })
+      .join("\n\n");
+  } else {
+    out += `🧵 Thread (root unavailable) — ${replyCount} replies`;
+  }
+
+  if (tree.replies.length > 0) {
+    out += `\n\n💬 Replies\n`;
+    const render = (node: ThreadNode, depth: number): string => {
+      const ref = depth === 0 ? selfThreadRef(tree, node.tweet) : "";
+      const head = depth > 0 ? "↳ " : ref ? `(${ref}) ` : "";
+      let s = indent(head + formatTweetTelegram(node.tweet), depth, "   ");
+      for (const child of node.children) s += "\n\n" + render(child, depth + 1);
+      return s;
+    };
+    out += "\n" + tree.replies.map((n) => render(n, 0)).join("\n\n");
+  }
+
+  return out;
+}
+
+/**
+ * Format a conversation as a nested markdown list (research docs).
+ */
+export function formatThreadMarkdown(tree: ThreadTree): string {
+  const replyCount = countNodes(tree.replies);
+  const author = tree.selfThread[0]?.username;
+  let out = author
+    ? `# Thread: @${author}\n\n**Posts:** ${tree.selfThread.length} · **Replies:** ${replyCount}\n\n`
+    : `# Thread\n\n**Replies:** ${replyCount} (root unavailable)\n\n`;
+
+  if (tree.selfThread.length > 0) {
+    out += `## Thread\n\n`;
+    out += tree.selfThread.map(formatTweetMarkdown).join("\n\n");
+    out += "\n\n";
+  }
+
+  if (tree.replies.length > 0) {
+    out += `## Replies\n\n`;
+    const render = (node: ThreadNode, depth: number): string => {
+      const ref = depth === 0 ? selfThreadRef(tree, node.tweet) : "";
+      let md = formatTweetMarkdown(node.tweet);
+      if (ref) md = md.replace("\n", ` _(${ref})_\n`);
+      let s = indent(md, depth, "  ");
+      for (const child of node.children) s += "\n" + render(child, depth + 1);
+      return s;
+    };
+    out += tree.replies.map((n) => render(n, 0)).join("\n\n");
+    out += "\n";
   }
 
   return out;
@@ -155,3 +372,431 @@ export function formatProfileTelegram(user: any, tweets: Tweet[]): string {
 
   return out;
 }
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+
+/**
+ * One-line bar chart, e.g. "▁▃█▅▁". All-zero input renders flat. Pass `max`
+ * to draw several lines on one scale.
+ */
+export function sparkline(values: number[], max: number = Math.max(...values, 0)): string {
+  return values
+    .map((v) => (max > 0 ? SPARK_CHARS[Math.round((v / max) * (SPARK_CHARS.length - 1))] : SPARK_CHARS[0]))
+    .join("");
+}
+
+function percent(x: number): string {
+  return `${(x * 100).toFixed(x > 0 && x < 0.01 ? 2 : 1)}%`;
+}
+
+/**
+ * Format account analytics (profile --stats / analyze) for Telegram.
+ */
+export function formatAccountStatsTelegram(a: AccountStats): string {
+  const s = a.sample;
+  const e = a.engagement;
+  let out = `📊 @${a.username} — ${a.name}\n`;
+  out += `${compactNumber(a.followers)} followers · ${compactNumber(a.following)} following · ${compactNumber(a.totalTweets)} tweets\n\n`;
+
+  if (s.tweets === 0) return out + "No tweets in range.";
+
+  out += `Sample: ${s.tweets} tweets over ${s.days.toFixed(1)} days (${s.perDay.toFixed(1)}/day)`;
+  out += ` · ${percent(s.replyShare)} replies · ${percent(s.linkShare)} with links · ${percent(s.mediaShare)} with media\n\n`;
+
+  const hour = (h: number) => `${String(h).padStart(2, "0")}:00`;
+  out += `🕐 Posting (UTC) — peak ${a.cadence.peakHours.map(hour).join(", ")}\n`;
+  out += `  00h ${sparkline(a.cadence.byHour)} 23h\n`;
+  out += `  ${a.cadence.byWeekday.map((n, i) => `${WEEKDAYS[i]} ${n}`).join(" · ")}\n\n`;
+
+  const n = (x: number) => compactNumber(Math.round(x));
+  out += `❤️ Engagement — median ${n(e.medianLikes)} likes · ${n(e.medianRetweets)} RTs · ${n(e.medianImpressions)} views (mean ${n(e.meanLikes)} likes)\n`;
+  out += `  Per tweet: ${percent(e.medianRateVsFollowers)} of followers interact · ${percent(e.medianRateVsImpressions)} of viewers\n`;
+  out += `  Top:\n`;
+  for (const t of e.top) {
+    const text = cleanTcoLinks(t.text).replace(/\s+/g, " ");
+    out += `  • ${compactNumber(t.metrics.likes)}❤️ ${text.slice(0, 80)}${text.length > 80 ? "…" : ""}\n    ${t.tweet_url}\n`;
+  }
+
+  const list = (items: { key: string; count: number }[], prefix: string = "") =>
+    items.length > 0 ? items.map((r) => `${prefix}${r.key} (${r.count})`).join(", ") : "—";
+  out += `\n🔗 Links: ${list(a.domains)}\n`;
+  out += `💬 Mentions: ${list(a.mentions, "@")}\n`;
+  out += `#️⃣ Hashtags: ${list(a.hashtags, "#")}`;
+  return out;
+}
+
+/**
+ * Format ranked authors (voices) for Telegram.
+ */
+export function formatVoicesTelegram(
+  voices: Voice[],
+  opts: { query: string; rank: string; limit?: number }
+): string {
+  const shown = voices.slice(0, opts.limit || 15);
+  let out = `🗣️ Voices — "${opts.query}" (by ${opts.rank}, ${shown.length} of ${voices.length} authors)\n`;
+  if (shown.length === 0) return out + "\nNo tweets matched.";
+
+  const entries = shown.map((v, i) => {
+    const followers = v.followers === undefined ? "? followers" : `${compactNumber(v.followers)} followers`;
+    const text = cleanTcoLinks(v.topTweet.text).replace(/\s+/g, " ");
+    let entry = `${i + 1}. @${v.username} — ${v.name} (${followers})\n`;
+    entry += `   ${v.tweets} tweets · ${compactNumber(v.engagement)} interactions (${compactNumber(Math.round(v.perTweet))}/tweet)`;
+    entry += ` · ${compactNumber(v.likes)}❤️ ${compactNumber(v.retweets)}🔁`;
+    if (v.impressions > 0) entry += ` · ${compactNumber(v.impressions)} views`;
+    entry += `\n   Top: ${text.slice(0, 80)}${text.length > 80 ? "…" : ""}\n   ${v.topTweet.tweet_url}`;
+    return entry;
+  });
+  return out + "\n" + entries.join("\n\n");
+}
+
+/**
+ * Format a link report (links command) for Telegram: top links, then domains.
+ */
+export function formatLinksTelegram(
+  links: LinkStat[],
+  domains: DomainStat[],
+  opts: { query: string; rank: string; limit?: number }
+): string {
+  const shown = links.slice(0, opts.limit || 15);
+  let out = `🔗 Links — "${opts.query}" (by ${opts.rank}, ${shown.length} of ${links.length} links)\n`;
+  if (shown.length === 0) return out + "\nNo links in the results.";
+
+  const entries = shown.map((l, i) => {
+    const authors = l.authors === 1 ? "1 author" : `${l.authors} authors`;
+    let entry = `${i + 1}. ${l.url}\n`;
+    entry += `   ${l.tweets} tweets · ${authors} · ${compactNumber(l.engagement)} interactions`;
+    entry += `\n   via @${l.topTweet.username}: ${l.topTweet.tweet_url}`;
+    return entry;
+  });
+  out += "\n" + entries.join("\n\n");
+
+  out += `\n\n🌐 Domains:\n`;
+  out += domains
+    .slice(0, 10)
+    .map((d) => {
+      const count = d.links === 1 ? "1 link" : `${d.links} links`;
+      return `  ${d.domain} — ${count} · ${d.tweets} tweets · ${compactNumber(d.engagement)} interactions`;
+    })
+    .join("\n");
+  return out;
+}
+
+/**
+ * Format a link report as a markdown section for research docs, grouped
+ * by domain.
+ */
+export function formatLinksMarkdown(
+  links: LinkStat[],
+  domains: DomainStat[],
+  opts: { query: string; limit?: number }
+): string {
+  const shown = links.slice(0, opts.limit || 15);
+  let out = `# Links: ${opts.query}\n\n`;
+  out += `**Date:** ${new Date().toISOString().split("T")[0]}\n`;
+  out += `**Links found:** ${links.length} across ${domains.length} domains\n\n`;
+
+  for (const d of domains) {
+    const items = shown.filter((l) => l.domain === d.domain);
+    if (items.length === 0) continue;
+    out += `## ${d.domain} (${d.tweets} tweets)\n\n`;
+    for (const l of items) {
+      out += `- ${l.url} — ${l.tweets} tweets, ${l.authors} authors, ${l.engagement} interactions `;
+      out += `([top tweet](${l.topTweet.tweet_url}) by @${l.topTweet.username})\n`;
+    }
+    out += "\n";
+  }
+  return out.trimEnd() + "\n";
+}
+
+const BUCKET_UNITS = { minute: "minute", hour: "hour", day: "day" };
+// Sparkline buckets per line: an hour of minutes, a day of hours
+const BUCKETS_PER_ROW = { minute: 60, hour: 24, day: 1 };
+const BAR_WIDTH = 40;
+
+function utcMinute(iso: string): string {
+  return iso.replace("T", " ").slice(0, 16);
+}
+
+function spikeLabel(v: Volume, b: Volume["buckets"][number]): string {
+  const ratio = v.baseline > 0 ? ` (${(b.count / v.baseline).toFixed(1)}× baseline)` : "";
+  return `${utcMinute(b.start)}  ${b.count.toLocaleString("en-US")}${ratio}`;
+}
+
+/**
+ * Format a volume timeline (counts command) for Telegram: hourly/minutely
+ * buckets as sparkline rows on one scale with spikes marked underneath,
+ * daily buckets as a bar chart.
+ */
+export function formatVolumeTelegram(v: Volume, opts: { query: string; threshold: number }): string {
+  const unit = BUCKET_UNITS[v.granularity];
+  let out = `📈 Volume — "${opts.query}" · ${v.total.toLocaleString("en-US")} tweets · per ${unit}\n`;
+  if (v.buckets.length === 0) return out + "\nNo buckets returned.";
+
+  const first = v.buckets[0];
+  const last = v.buckets[v.buckets.length - 1];
+  out += `${utcMinute(first.start)} → ${utcMinute(last.end)} UTC · baseline ${compactNumber(Math.round(v.baseline))}/${unit} (median)`;
+  if (v.peak) out += ` · peak ${compactNumber(v.peak.count)} at ${utcMinute(v.peak.start)}`;
+  out += "\n\n";
+
+  const max = v.peak?.count || 0;
+  if (v.granularity === "day") {
+    for (const b of v.buckets) {
+      const width = max > 0 ? Math.round((b.count / max) * BAR_WIDTH) : 0;
+      const bar = "█".repeat(b.count > 0 ? Math.max(width, 1) : 0).padEnd(BAR_WIDTH);
+      out += `${b.start.slice(0, 10)}  ${bar} ${compactNumber(b.count)}${b.spike ? " ⚠️" : ""}\n`;
+    }
+  } else {
+    const size = BUCKETS_PER_ROW[v.granularity];
+    for (let i = 0; i < v.buckets.length; i += size) {
+      const row = v.buckets.slice(i, i + size);
+      const total = row.reduce((sum, b) => sum + b.count, 0);
+      const label = utcMinute(row[0].start).slice(5);
+      out += `${label}  ${sparkline(row.map((b) => b.count), max)}  ${compactNumber(total)}\n`;
+      if (row.some((b) => b.spike)) {
+        out += `${" ".repeat(label.length + 2)}${row.map((b) => (b.spike ? "^" : " ")).join("").trimEnd()}\n`;
+      }
+    }
+  }
+
+  if (v.spikes.length === 0) {
+    out += `\nNo spikes (none ${opts.threshold}σ above baseline).`;
+  } else {
+    out += `\n⚠️ Spikes (${opts.threshold}σ+ above baseline):\n`;
+    out += v.spikes.map((b) => `  ${spikeLabel(v, b)}`).join("\n");
+  }
+  return out;
+}
+
+/**
+ * Format a volume timeline as markdown: summary, sparkline and a table of
+ * every bucket with spikes flagged.
+ */
+export function formatVolumeMarkdown(v: Volume, opts: { query: string; threshold: number }): string {
+  const unit = BUCKET_UNITS[v.granularity];
+  let out = `# Volume: ${opts.query}\n\n`;
+  out += `**Date:** ${new Date().toISOString().split("T")[0]}\n`;
+  out += `**Tweets:** ${v.total.toLocaleString("en-US")} (per ${unit}, baseline ${Math.round(v.baseline)} median)\n`;
+  if (v.peak) out += `**Peak:** ${v.peak.count} at ${utcMinute(v.peak.start)} UTC\n`;
+  out += `**Spikes (${opts.threshold}σ+):** ${v.spikes.length > 0 ? v.spikes.map((b) => utcMinute(b.start)).join(", ") : "none"}\n\n`;
+  if (v.buckets.length === 0) return out;
+
+  out += `\`${sparkline(v.buckets.map((b) => b.count))}\`\n\n`;
+  out += `| Start (UTC) | Tweets | vs baseline | |\n|---|---:|---:|---|\n`;
+  for (const b of v.buckets) {
+    const ratio = v.baseline > 0 ? `${(b.count / v.baseline).toFixed(1)}×` : "—";
+    out += `| ${utcMinute(b.start)} | ${b.count} | ${ratio} | ${b.spike ? "⚠️ spike" : ""} |\n`;
+  }
+  return out;
+}
+
+// --- Output format registry ---
+
+/**
+ * What a command hands to an output format. `tweets` is always the flat
+ * result list; the optional fields let formats render richer structure.
+ */
+export interface FormatContext {
+  title: string;
+  kind?: "results" | "tweet" | "thread" | "profile";
+  limit?: number; // display limit for telegram/json
+  user?: any; // profile header
+  tree?: ThreadTree; // thread structure
+  research?: ResearchMarkdownOptions;
+  json?: unknown; // command-specific JSON payload (defaults to the tweets)
+}
+
+export interface OutputFormat {
+  name: string;
+  extension: string;
+  render(tweets: Tweet[], ctx: FormatContext): string;
+}
+
+const CSV_COLUMNS = [
+  "id", "created_at", "username", "name", "text",
+  "likes", "retweets", "replies", "quotes", "impressions", "bookmarks",
+  "velocity_per_hour", "urls", "hashtags", "mentions", "media",
+  "quoted_id", "in_reply_to_id", "conversation_id", "found_by", "tweet_url",
+];
+
+function csvCell(value: unknown): string {
+  let s = value === undefined || value === null ? "" : String(value);
+  // Anyone can post text starting with =, +, - or @, which spreadsheets run
+  // as a formula: a leading ' keeps it text
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Tweets as CSV with flattened metrics, one row per tweet.
+ */
+export function formatCsv(tweets: Tweet[], ctx?: FormatContext): string {
+  const foundBy = ctx?.research?.foundBy;
+  const rows = tweets.map((t) =>
+    [
+      t.id, t.created_at, t.username, t.name, t.text,
+      t.metrics.likes, t.metrics.retweets, t.metrics.replies,
+      t.metrics.quotes, t.metrics.impressions, t.metrics.bookmarks,
+      t.velocity ? t.velocity.perHour.toFixed(2) : "",
+      t.urls.join(" "), t.hashtags.join(" "), t.mentions.join(" "),
+      (t.media || []).map((m) => m.type).join(" "),
+      t.quoted?.id, t.in_reply_to_id, t.conversation_id,
+      foundBy?.[t.id]?.join(" | "), t.tweet_url,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+/**
+ * Tweets as JSON Lines — one tweet object per line, for piping.
+ */
+export function formatJsonl(tweets: Tweet[]): string {
+  return tweets.map((t) => JSON.stringify(t)).join("\n");
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body{font:15px/1.5 -apple-system,system-ui,sans-serif;max-width:760px;margin:2em auto;padding:0 1em;color:#0f1419;background:#fff}
+h1{font-size:1.5em;margin-bottom:.2em}.meta{color:#536471;font-size:.9em;margin-bottom:1.5em}
+.tweet{border:1px solid #eff3f4;border-radius:12px;padding:.8em 1em;margin:.8em 0}
+.head{font-weight:600}.head span{color:#536471;font-weight:400}
+.text{white-space:pre-wrap;margin:.4em 0}.stats,.links{color:#536471;font-size:.85em}
+.quoted{border-left:3px solid #cfd9de;padding-left:.8em;margin:.5em 0;color:#333}
+.media img{max-width:100%;max-height:280px;border-radius:8px;margin:.3em .3em 0 0}
+a{color:#1d9bf0;text-decoration:none}`;
+
+function tweetHtml(t: Tweet, depth: number = 0): string {
+  const text = escapeHtml(cleanTcoLinks(t.text));
+  const m = t.metrics;
+  const margin = depth > 0 ? ` style="margin-left:${Math.min(depth, MAX_THREAD_INDENT) * 1.5}em"` : "";
+  let out = `<div class="tweet"${margin}>`;
+  out += `<div class="head">@${escapeHtml(t.username)} <span>${escapeHtml(t.name)} · ${escapeHtml(t.created_at || "")}</span></div>`;
+  out += `<div class="text">${text}</div>`;
+  if (t.quoted) {
+    out += `<div class="quoted"><b>@${escapeHtml(t.quoted.username)}</b>: ${escapeHtml(cleanTcoLinks(t.quoted.text))}</div>`;
+  }
+  if (t.media?.length) {
+    out += `<div class="media">${t.media
+      .map((md) => {
+        const src = md.url || md.preview_url;
+        return src
+          ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(md.alt_text || md.type)}" loading="lazy">`
+          : "";
+      })
+      .join("")}</div>`;
+  }
+  if (t.poll) out += `<div class="stats">📊 ${escapeHtml(pollSummary(t.poll))}</div>`;
+  const velocity = t.velocity ? ` · ⚡ ${t.velocity.perHour.toFixed(1)} ${t.velocity.metric}/h` : "";
+  out += `<div class="stats">❤️ ${m.likes} · 🔁 ${m.retweets} · 💬 ${m.replies} · 👁 ${m.impressions}${velocity}</div>`;
+  if (t.urls.length > 0) {
+    out += `<div class="links">${t.urls
+      .map((u) => `<a href="${escapeHtml(u)}">${escapeHtml(u)}</a>`)
+      .join("<br>")}</div>`;
+  }
+  out += `<div class="links"><a href="${escapeHtml(t.tweet_url)}">View on X</a></div></div>`;
+  return out;
+}
+
+/**
+ * Self-contained HTML report (inline CSS, no scripts).
+ */
+export function formatHtml(tweets: Tweet[], ctx: FormatContext): string {
+  const date = new Date().toISOString().split("T")[0];
+  let body = `<h1>${escapeHtml(ctx.title)}</h1>`;
+  body += `<div class="meta">${date} · ${tweets.length} tweets`;
+  if (ctx.research?.timeRange) body += ` · ${escapeHtml(ctx.research.timeRange)}`;
+  if (ctx.research?.cost !== undefined) body += ` · est. cost $${ctx.research.cost.toFixed(2)}`;
+  body += `</div>`;
+
+  if (ctx.user) {
+    const m = ctx.user.public_metrics || {};
+    body += `<div class="meta">${compactNumber(m.followers_count || 0)} followers · ${escapeHtml(ctx.user.description || "")}</div>`;
+  }
+
+  if (ctx.tree) {
+    body += ctx.tree.selfThread.map((t) => tweetHtml(t)).join("");
+    const render = (node: ThreadNode, depth: number): string =>
+      tweetHtml(node.tweet, depth) + node.children.map((c) => render(c, depth + 1)).join("");
+    if (ctx.tree.replies.length > 0) {
+      body += `<h2>Replies</h2>` + ctx.tree.replies.map((n) => render(n, 0)).join("");
+    }
+  } else if (ctx.research?.themes?.length) {
+    const byId = new Map(tweets.map((t) => [t.id, t]));
+    for (const theme of ctx.research.themes) {
+      body += `<h2>${escapeHtml(theme.title)}</h2>`;
+      body += theme.tweetIds
+        .map((id) => byId.get(id))
+        .filter(Boolean)
+        .map((t) => tweetHtml(t!))
+        .join("");
+    }
+  } else {
+    body += tweets.map((t) => tweetHtml(t)).join("");
+  }
+
+  if (ctx.research?.queries?.length) {
+    body += `<h2>Queries</h2><ul>${ctx.research.queries
+      .map((q) => `<li><code>${escapeHtml(q)}</code></li>`)
+      .join("")}</ul>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(ctx.title)}</title>
+<style>${HTML_STYLE}</style></head>
+<body>${body}</body></html>`;
+}
+
+const FORMATS: Record<string, OutputFormat> = {
+  telegram: {
+    name: "telegram",
+    extension: "txt",
+    render: (tweets, ctx) => {
+      if (ctx.tree) return formatThreadTelegram(ctx.tree);
+      if (ctx.user) return formatProfileTelegram(ctx.user, tweets);
+      if (ctx.kind === "tweet" && tweets[0]) {
+        return formatTweetTelegram(tweets[0], undefined, { full: true });
+      }
+      return formatResultsTelegram(tweets, { query: ctx.title, limit: ctx.limit });
+    },
+  },
+  markdown: {
+    name: "markdown",
+    extension: "md",
+    render: (tweets, ctx) =>
+      ctx.tree
+        ? formatThreadMarkdown(ctx.tree)
+        : formatResearchMarkdown(ctx.title, tweets, ctx.research),
+  },
+  json: {
+    name: "json",
+    extension: "json",
+    render: (tweets, ctx) =>
+      JSON.stringify(ctx.json ?? tweets.slice(0, ctx.limit ?? tweets.length), null, 2),
+  },
+  jsonl: { name: "jsonl", extension: "jsonl", render: (tweets) => formatJsonl(tweets) },
+  csv: { name: "csv", extension: "csv", render: formatCsv },
+  html: { name: "html", extension: "html", render: formatHtml },
+};
+
+export const FORMAT_NAMES = Object.keys(FORMATS);
+
+/**
+ * Look up an output format by name.
+ */
+export function getFormat(name: string): OutputFormat {
+  const format = FORMATS[name.toLowerCase()];
+  if (!format) {
+    throw new Error(`Unknown format "${name}" (use ${FORMAT_NAMES.join(", ")})`);
+  }
+  return format;
+}
@@ -0,0 +1,168 @@
+/**
+ * Local spend ledger for X API calls.
+ * Every successful request is appended to data/ledger.jsonl with its
+ * estimated cost, so spend can be summarized and capped per day.
+ */
+
+import { existsSync, readFileSync, appendFileSync } from "fs";
+import { join } from "path";
+
+const LEDGER_PATH = join(import.meta.dir, "..", "data", "ledger.jsonl");
+
+export const POST_READ_COST = 0.005;
+export const USER_LOOKUP_COST = 0.01;
+
+export interface LedgerEntry {
+  timestamp: string;
+  command: string;
+  endpoint: string;
+  query?: string;
+  posts: number;
+  users: number;
+  cost: number;
+}
+
+let currentCommand = "";
+let dailyBudget: number | undefined;
+// Running totals for calls made by this process
+const session = { calls: 0, posts: 0, users: 0, cost: 0 };
+
+/**
+ * Label subsequent entries with the CLI command that made them.
+ */
+export function setCommand(command: string) {
+  currentCommand = command;
+}
+
+/**
+ * Set the daily spend cap in USD (UTC day). Undefined disables the guard.
+ */
+export function setDailyBudget(usd: number | undefined) {
+  dailyBudget = usd;
+}
+
+export function estimateCost(posts: number, users: number = 0): number {
+  return posts * POST_READ_COST + users * USER_LOOKUP_COST;
+}
+
+/**
+ * Count a call toward this session, and append it to the ledger file
+ * unless `persist` is false (mock / replayed calls that cost nothing real).
+ */
+export function record(
+  entry: Pick<LedgerEntry, "endpoint" | "query" | "posts" | "users">,
+  persist: boolean = true
+): void {
+  const full: LedgerEntry = {
+    timestamp: new Date().toISOString(),
+    command: currentCommand,
+    ...entry,
+    cost: estimateCost(entry.posts, entry.users),
+  };
+  if (persist) appendFileSync(LEDGER_PATH, JSON.stringify(full) + "\n");
+  session.calls++;
+  session.posts += full.posts;
+  session.users += full.users;
+  session.cost += full.cost;
+}
+
+/**
+ * What this process has spent so far (cache hits cost nothing).
+ */
+export function sessionTotals(): typeof session {
+  return { ...session };
+}
+
+export function read(): LedgerEntry[] {
+  if (!existsSync(LEDGER_PATH)) return [];
+  return readFileSync(LEDGER_PATH, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as LedgerEntry];
+      } catch {
+        return [];
+      }
+    });
+}
+
+function utcDay(ts: string | Date = new Date()): string {
+  return new Date(ts).toISOString().split("T")[0];
+}
+
+/**
+ * Total estimated spend for a UTC day (default: today).
+ */
+export function spentOn(day: string = utcDay()): number {
+  return read()
+    .filter((e) => utcDay(e.timestamp) === day)
+    .reduce((sum, e) => sum + e.cost, 0);
+}
+
+/**
+ * Throw if spending `estimate` more today would exceed the daily budget.
+ */
+export function checkBudget(estimate: number): void {
+  if (dailyBudget === undefined) return;
+  const spent = spentOn();
+  if (spent + estimate > dailyBudget) {
+    throw new Error(
+      `Daily budget $${dailyBudget.toFixed(2)} would be exceeded: ` +
+        `$${spent.toFixed(2)} spent today (UTC) + up to $${estimate.toFixed(2)} more. ` +
+        `Raise it with --budget or wait until tomorrow.`
+    );
+  }
+}
+
+export interface SpendBucket {
+  key: string;
+  calls: number;
+  posts: number;
+  users: number;
+  cost: number;
+}
+
+export interface SpendSummary {
+  days: number;
+  today: number;
+  budget?: number;
+  total: SpendBucket;
+  byDay: SpendBucket[];
+  byQuery: SpendBucket[];
+  byCommand: SpendBucket[];
+}
+
+/**
+ * Summarize spend over the last N days (including today).
+ */
+export function summarize(days: number = 7): SpendSummary {
+  const cutoff = new Date();
+  cutoff.setUTCDate(cutoff.getUTCDate() - (days - 1));
+  const from = utcDay(cutoff);
+  const entries = read().filter((e) => utcDay(e.timestamp) >= from);
+
+  const group = (keyOf: (e: LedgerEntry) => string) => {
+    const buckets = new Map<string, SpendBucket>();
+    for (const e of entries) {
+      const key = keyOf(e);
+      const b = buckets.get(key) || { key, calls: 0, posts: 0, users: 0, cost: 0 };
+      b.calls++;
+      b.posts += e.posts;
+      b.users += e.users;
+      b.cost += e.cost;
+      buckets.set(key, b);
+    }
+    return [...buckets.values()];
+  };
+
+  return {
+    days,
+    today: spentOn(),
+    budget: dailyBudget,
+    total: group(() => "total")[0] || { key: "total", calls: 0, posts: 0, users: 0, cost: 0 },
+    byDay: group((e) => utcDay(e.timestamp)).sort((a, b) => b.key.localeCompare(a.key)),
+    byQuery: group((e) => e.query || `(${e.endpoint})`).sort((a, b) => b.cost - a.cost),
+    byCommand: group((e) => e.command || "?").sort((a, b) => b.cost - a.cost),
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Link report over a set of search results: every expanded URL, normalized
+ * so the same resource counts once (tracking params, www., trailing
+ * slashes, x.com/twitter.com variants, arXiv PDF vs abstract), ranked by
+ * how many tweets cited it and how much engagement those tweets got, and
+ * grouped by domain. Pure functions, no API calls.
+ */
+
+import type { Tweet } from "./api";
+import { engagement } from "./metrics";
+import { domainOf } from "./themes";
+
+export type LinkRank = "tweets" | "engagement";
+
+export const LINK_RANKS: LinkRank[] = ["tweets", "engagement"];
+
+export interface LinkStat {
+  url: string; // normalized
+  domain: string;
+  tweets: number; // distinct tweets linking it
+  authors: number; // distinct authors linking it
+  engagement: number; // likes + retweets + replies + quotes of those tweets
+  likes: number;
+  firstSeen: string; // created_at of the earliest tweet
+  tweetIds: string[]; // most-engaged first
+  topTweet: Tweet;
+}
+
+export interface DomainStat {
+  domain: string;
+  links: number; // distinct URLs
+  tweets: number; // distinct tweets linking anywhere on the domain
+  engagement: number;
+}
+
+// Query params that identify the click, not the resource
+const TRACKING_PARAMS = new Set([
+  "fbclid", "gclid", "dclid", "msclkid", "igshid", "mc_cid", "mc_eid", "ref", "ref_src",
+  "ref_url", "si", "_hsenc", "_hsmi", "mkt_tok", "cmpid",
+]);
+const X_HOSTS = new Set(["x.com", "twitter.com", "mobile.twitter.com", "mobile.x.com"]);
+
+/**
+ * Canonical form of a URL, or null for links that aren't worth counting
+ * (unexpanded t.co, non-http). x.com / twitter.com post links become
+ * https://x.com/<user>/status/<id>, without /photo/1 or /video/1 suffixes.
+ */
+export function normalizeUrl(raw: string): string | null {
+  let u: URL;
+  try {
+    u = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+
+  const host = u.hostname.toLowerCase().replace(/^www\./, "");
+  if (host === "t.co") return null;
+
+  if (X_HOSTS.has(host)) {
+    const post = u.pathname.match(/^\/([^/]+)\/status(?:es)?\/(\d+)/);
+    if (post) return `https://x.com/${post[1].toLowerCase()}/status/${post[2]}`;
+    return `https://x.com${u.pathname.replace(/\/+$/, "").toLowerCase()}`;
+  }
+  if (host === "youtu.be") {
+    return `https://youtube.com/watch?v=${u.pathname.slice(1)}`;
+  }
+
+  let path = u.pathname.replace(/\/+$/, "");
+  if (host === "arxiv.org") {
+    // /pdf/2401.01234v2.pdf and /abs/2401.01234 are the same paper
+    path = path.replace(/^\/pdf\//, "/abs/").replace(/\.pdf$/, "").replace(/v\d+$/, "");
+  }
+  if (host === "github.com") path = path.toLowerCase().replace(/\.git$/, "");
+
+  const params = [...u.searchParams.entries()]
+    .filter(([key]) => !key.toLowerCase().startsWith("utm_") && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params)}` : "";
+  return `https://${host}${path}${query}`;
+}
+
+/**
+ * Every normalized link across the tweets, ranked. A tweet linking the same
+ * URL twice counts once; links to the tweet itself (attached media) are
+ * skipped.
+ */
+export function rankLinks(
+  tweets: Tweet[],
+  opts: { rank?: LinkRank; minTweets?: number } = {}
+): LinkStat[] {
+  const byUrl = new Map<string, { tweets: Tweet[]; authors: Set<string> }>();
+
+  for (const t of tweets) {
+    const urls = new Set(t.urls.map(normalizeUrl));
+    for (const url of urls) {
+      if (!url || url.endsWith(`/status/${t.id}`)) continue;
+      const entry = byUrl.get(url) || { tweets: [], authors: new Set<string>() };
+      entry.tweets.push(t);
+      entry.authors.add(t.author_id);
+      byUrl.set(url, entry);
+    }
+  }
+
+  const links = [...byUrl.entries()].map(([url, entry]): LinkStat => {
+    const sorted = [...entry.tweets].sort((a, b) => engagement(b) - engagement(a));
+    return {
+      url,
+      domain: domainOf(url) || "?",
+      tweets: sorted.length,
+      authors: entry.authors.size,
+      engagement: sorted.reduce((sum, t) => sum + engagement(t), 0),
+      likes: sorted.reduce((sum, t) => sum + t.metrics.likes, 0),
+      firstSeen: sorted.map((t) => t.created_at).sort()[0],
+      tweetIds: sorted.map((t) => t.id),
+      topTweet: sorted[0],
+    };
+  });
+
+  const byEngagement = opts.rank === "engagement";
+  return links
+    .filter((l) => l.tweets >= (opts.minTweets || 1))
+    .sort((a, b) =>
+      byEngagement
+        ? b.engagement - a.engagement || b.tweets - a.tweets
+        : b.tweets - a.tweets || b.authors - a.authors || b.engagement - a.engagement
+    );
+}
+
+/**
+ * Roll ranked links up by domain, most-cited domain first. A tweet linking
+ * two pages on one domain counts (and its engagement adds) once.
+ */
+export function groupByDomain(links: LinkStat[], tweets: Tweet[]): DomainStat[] {
+  const byId = new Map(tweets.map((t) => [t.id, t]));
+  const byDomain = new Map<string, { links: number; tweetIds: Set<string> }>();
+  for (const l of links) {
+    const entry = byDomain.get(l.domain) || { links: 0, tweetIds: new Set<string>() };
+    entry.links++;
+    for (const id of l.tweetIds) entry.tweetIds.add(id);
+    byDomain.set(l.domain, entry);
+  }
+  return [...byDomain.entries()]
+    .map(([domain, e]) => ({
+      domain,
+      links: e.links,
+      tweets: e.tweetIds.size,
+      engagement: [...e.tweetIds].reduce((sum, id) => sum + engagement(byId.get(id)!), 0),
+    }))
+    .sort((a, b) => b.tweets - a.tweets || b.engagement - a.engagement || a.domain.localeCompare(b.domain));
+}
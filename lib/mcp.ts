@@ -0,0 +1,200 @@
+/**
+ * Minimal MCP (Model Context Protocol) server over stdio.
+ * Newline-delimited JSON-RPC 2.0: handles initialize, ping, tools/list and
+ * tools/call. Tools can also be called directly as plain JSON-RPC methods
+ * ({"method": "search", "params": {...}}) by clients that don't speak MCP.
+ *
+ * stdout carries protocol messages only; logs go to stderr.
+ */
+
+import { createInterface } from "readline";
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const TOOL_ERROR = -32000; // tool failed (API error, budget guard, ...)
+
+/**
+ * JSON Schema subset used for tool inputs.
+ */
+export interface JsonSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+}
+
+export interface Tool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  handler(input: any): Promise<unknown>;
+}
+
+export interface ServerInfo {
+  name: string;
+  version: string;
+}
+
+class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Check tool input against its schema (types, enums, required keys, ranges).
+ * Returns the first problem found, or undefined.
+ */
+export function validate(value: unknown, schema: JsonSchema, path: string = "input"): string | undefined {
+  switch (schema.type) {
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return `${path} must be an object`;
+      const obj = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (obj[key] === undefined) return `${path}.${key} is required`;
+      }
+      for (const [key, v] of Object.entries(obj)) {
+        const prop = schema.properties?.[key];
+        if (!prop) return `${path}.${key} is not a known parameter`;
+        const problem = validate(v, prop, `${path}.${key}`);
+        if (problem) return problem;
+      }
+      return undefined;
+    }
+    case "array":
+      if (!Array.isArray(value)) return `${path} must be an array`;
+      for (let i = 0; i < value.length; i++) {
+        const problem = schema.items && validate(value[i], schema.items, `${path}[${i}]`);
+        if (problem) return problem;
+      }
+      return undefined;
+    case "integer":
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) return `${path} must be a number`;
+      if (schema.type === "integer" && !Number.isInteger(value)) return `${path} must be an integer`;
+      if (schema.minimum !== undefined && value < schema.minimum) return `${path} must be >= ${schema.minimum}`;
+      if (schema.maximum !== undefined && value > schema.maximum) return `${path} must be <= ${schema.maximum}`;
+      break;
+    case "string":
+      if (typeof value !== "string") return `${path} must be a string`;
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") return `${path} must be a boolean`;
+      break;
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return `${path} must be one of ${schema.enum.join(", ")}`;
+  }
+  return undefined;
+}
+
+async function callTool(tools: Map<string, Tool>, name: string, input: unknown): Promise<unknown> {
+  const tool = tools.get(name);
+  if (!tool) throw new RpcError(INVALID_PARAMS, `Unknown tool "${name}"`);
+  const args = input ?? {};
+  const problem = validate(args, tool.inputSchema);
+  if (problem) throw new RpcError(INVALID_PARAMS, problem);
+  return tool.handler(args);
+}
+
+async function handle(
+  tools: Map<string, Tool>,
+  info: ServerInfo,
+  method: string,
+  params: any
+): Promise<unknown> {
+  switch (method) {
+    case "initialize": {
+      const requested = params?.protocolVersion;
+      return {
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+          ? requested
+          : SUPPORTED_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: info,
+      };
+    }
+    case "ping":
+      return {};
+    case "tools/list":
+      return {
+        tools: [...tools.values()].map(({ name, description, inputSchema }) => ({
+          name,
+          description,
+          inputSchema,
+        })),
+      };
+    case "tools/call": {
+      if (typeof params?.name !== "string") throw new RpcError(INVALID_PARAMS, "params.name is required");
+      try {
+        const result = await callTool(tools, params.name, params.arguments);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          structuredContent: result,
+        };
+      } catch (e: any) {
+        if (e instanceof RpcError) throw e;
+        // Tool failures (API errors, budget guard, ...) are results the model can read
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+    }
+    default:
+      // Plain JSON-RPC: call a tool by name
+      if (tools.has(method)) return callTool(tools, method, params);
+      throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+function send(message: unknown) {
+  process.stdout.write(JSON.stringify(message) + "\n");
+}
+
+/**
+ * Serve tools over stdin/stdout until stdin closes. Requests are handled one
+ * at a time, in order, so API pacing and the spend ledger stay sequential.
+ */
+export async function serveStdio(toolList: Tool[], info: ServerInfo): Promise<void> {
+  const tools = new Map(toolList.map((t) => [t.name, t]));
+  const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let msg: any;
+    try {
+      msg = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } });
+      continue;
+    }
+
+    const id = msg?.id;
+    const isNotification = id === undefined;
+    if (msg?.jsonrpc !== "2.0" || typeof msg.method !== "string") {
+      if (!isNotification) {
+        send({ jsonrpc: "2.0", id, error: { code: INVALID_REQUEST, message: "Invalid request" } });
+      }
+      continue;
+    }
+    // Notifications (initialized, cancelled, ...) need no reply
+    if (isNotification) continue;
+
+    try {
+      const result = await handle(tools, info, msg.method, msg.params);
+      send({ jsonrpc: "2.0", id, result });
+    } catch (e: any) {
+      const code = e instanceof RpcError ? e.code : TOOL_ERROR;
+      send({ jsonrpc: "2.0", id, error: { code, message: e.message } });
+    }
+  }
+}
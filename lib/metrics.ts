@@ -0,0 +1,22 @@
+/**
+ * Small numeric helpers shared by the report modules (analyze, voices,
+ * links, volume). Pure functions.
+ */
+
+import type { Tweet } from "./api";
+
+/**
+ * Interactions on a tweet: likes + retweets + replies + quotes. Views are
+ * left out — they aren't an action someone took.
+ */
+export function engagement(t: Tweet): number {
+  const m = t.metrics;
+  return m.likes + m.retweets + m.replies + m.quotes;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,438 @@
+/**
+ * Local mock of the X API v2 endpoints x-search uses, for offline testing.
+ * Serves search/recent (and search/all), counts/recent (and counts/all),
+ * tweets/:id and users/by/username/:username from an in-memory dataset, with query
+ * matching, since_id / start_time / end_time, both sort orders and
+ * next_token pagination. Responses have the same shape as the real API.
+ *
+ *   bun run lib/mock-server.ts [--port 8787] [--data dataset.json]
+ *   X_API_BASE_URL=http://localhost:8787/2 X_BEARER_TOKEN=test bun run x-search.ts search "bun"
+ *
+ * Or from a test: const server = startMockServer(); ...; server.stop();
+ */
+
+import { readFileSync } from "fs";
+import * as q from "./query";
+
+/**
+ * Raw API objects, as X returns them (tweet.fields / user.fields).
+ */
+export interface MockData {
+  users: any[];
+  tweets: any[];
+}
+
+/**
+ * The raw tweet objects sampleData() builds.
+ */
+interface MockTweet {
+  id: string;
+  text: string;
+  author_id: string;
+  created_at: string;
+  conversation_id: string;
+  lang: string;
+  public_metrics: Record<string, number>;
+  entities: {
+    urls?: { url: string; expanded_url: string }[];
+    mentions?: { username: string }[];
+    hashtags: { tag: string }[];
+  };
+  referenced_tweets?: { type: "replied_to" | "quoted" | "retweeted"; id: string }[];
+  in_reply_to_user_id?: string;
+}
+
+export interface MockServer {
+  url: string; // base URL including /2, for X_API_BASE_URL / setTransport
+  requests: string[]; // path + query of every request received
+  stop(): void;
+}
+
+const PAGE_LIMITS: Record<string, number> = { recent: 100, all: 500 };
+
+/**
+ * A small deterministic dataset: three users and 150 tweets over the last
+ * ~50 hours, with links, hashtags, mentions, a reply thread and a retweet.
+ * Enough for two pages of recent search at max_results=100.
+ */
+export function sampleData(now: number = Date.now()): MockData {
+  const users = [
+    { id: "101", username: "alice", name: "Alice", description: "Runtime engineer", verified: true },
+    { id: "102", username: "bob", name: "Bob", description: "Writes about TypeScript", verified: false },
+    { id: "103", username: "carol", name: "Carol", description: "AI agents", verified: false },
+  ].map((u, i) => ({
+    ...u,
+    created_at: "2015-06-01T00:00:00.000Z",
+    public_metrics: {
+      followers_count: [52000, 8300, 1200][i],
+      following_count: [300, 900, 150][i],
+      tweet_count: [12000, 4500, 800][i],
+      listed_count: [400, 60, 9][i],
+    },
+  }));
+
+  const topics = [
+    { text: "bun runtime is fast", tags: ["bun"] },
+    { text: "deno vs bun benchmarks", tags: ["deno", "bun"] },
+    { text: "typescript tips for large codebases", tags: ["typescript"] },
+    { text: "AI agents in production", tags: ["ai"] },
+  ];
+  const base = 1_900_000_000_000_000_000n;
+  const count = 150;
+  const id = (i: number) => String(base + BigInt(i));
+
+  const tweets = Array.from({ length: count }, (_, i): MockTweet => {
+    const author = users[i % users.length];
+    const topic = topics[i % topics.length];
+    const link = i % 5 === 0 ? "https://github.com/oven-sh/bun" : undefined;
+    const mention = i % 6 === 0 ? users[(i + 1) % users.length].username : undefined;
+    const text =
+      `${topic.text} #${topic.tags[0]} (${i})` +
+      (mention ? ` @${mention}` : "") +
+      (link ? " https://t.co/abc" : "");
+    return {
+      id: id(i),
+      text,
+      author_id: author.id,
+      created_at: new Date(now - (count - i) * 20 * 60_000).toISOString(),
+      conversation_id: id(i),
+      lang: i % 7 === 0 ? "ja" : "en",
+      public_metrics: {
+        like_count: (i * 37) % 500,
+        retweet_count: (i * 11) % 90,
+        reply_count: (i * 7) % 40,
+        quote_count: (i * 3) % 15,
+        bookmark_count: (i * 5) % 60,
+        impression_count: ((i * 37) % 500) * 40 + 100,
+      },
+      entities: {
+        ...(link && { urls: [{ url: "https://t.co/abc", expanded_url: link }] }),
+        ...(mention && { mentions: [{ username: mention }] }),
+        hashtags: topic.tags.slice(0, 1).map((tag) => ({ tag })),
+      },
+    };
+  });
+
+  // Reply thread under tweet 120 (alice): self-reply chain plus nested replies
+  const root = tweets[120];
+  const reply = (i: number, parent: number) => {
+    tweets[i].conversation_id = root.id;
+    tweets[i].referenced_tweets = [{ type: "replied_to", id: id(parent) }];
+    tweets[i].in_reply_to_user_id = tweets[parent].author_id;
+  };
+  tweets[123].author_id = root.author_id;
+  reply(123, 120);
+  reply(124, 120);
+  reply(125, 124);
+  tweets[126].author_id = root.author_id;
+  reply(126, 123);
+
+  // A quote and a retweet of the thread root
+  tweets[130].referenced_tweets = [{ type: "quoted", id: root.id }];
+  tweets[131].referenced_tweets = [{ type: "retweeted", id: root.id }];
+  tweets[131].text = `RT @alice: ${root.text}`;
+
+  return { users, tweets };
+}
+
+// --- Query matching ---
+
+type Predicate = (t: any) => boolean;
+
+function matcher(token: q.Token, users: Map<string, any>): Predicate {
+  const has = (t: any, type: string) => (t.referenced_tweets || []).some((r: any) => r.type === type);
+  const lower = (s: string) => s.toLowerCase();
+
+  if (token.kind === "phrase") {
+    const phrase = lower(token.text.replace(/^"|"$/g, ""));
+    return (t) => lower(t.text).includes(phrase);
+  }
+  if (token.kind === "operator") {
+    const value = lower(token.value!.replace(/^"|"$/g, ""));
+    switch (token.name) {
+      case "from":
+        return (t) => lower(users.get(t.author_id)?.username || "") === value;
+      case "to":
+        return (t) => lower(users.get(t.in_reply_to_user_id)?.username || "") === value;
+      case "url":
+        return (t) => (t.entities?.urls || []).some((u: any) => lower(u.expanded_url).includes(value));
+      case "lang":
+        return (t) => t.lang === value;
+      case "conversation_id":
+        return (t) => t.conversation_id === value;
+      case "is":
+        if (value === "retweet") return (t) => has(t, "retweeted");
+        if (value === "reply") return (t) => has(t, "replied_to");
+        if (value === "quote") return (t) => has(t, "quoted");
+        if (value === "verified") return (t) => !!users.get(t.author_id)?.verified;
+        return () => false;
+      case "has":
+        if (value === "links") return (t) => (t.entities?.urls || []).length > 0;
+        if (value === "mentions") return (t) => (t.entities?.mentions || []).length > 0;
+        if (value === "hashtags") return (t) => (t.entities?.hashtags || []).length > 0;
+        if (value === "media") return (t) => (t.attachments?.media_keys || []).length > 0;
+        return () => false;
+      default:
+        return () => true; // operators the mock doesn't model match everything
+    }
+  }
+  const term = lower(token.text);
+  return (t) => lower(t.text).includes(term);
+}
+
+/**
+ * Compile tokens into a predicate. Implicit AND binds tighter than OR, as on X.
+ */
+function compile(tokens: q.Token[], users: Map<string, any>, start: number = 0): [Predicate, number] {
+  const alternatives: Predicate[][] = [];
+  let current: Predicate[] = [];
+  let i = start;
+
+  while (i < tokens.length && tokens[i].kind !== "close") {
+    const token = tokens[i];
+    if (token.kind === "or") {
+      alternatives.push(current);
+      current = [];
+      i++;
+      continue;
+    }
+    let pred: Predicate;
+    if (token.kind === "open") {
+      const [inner, end] = compile(tokens, users, i + 1);
+      pred = inner;
+      i = end + 1; // skip the ")"
+    } else {
+      pred = matcher(token, users);
+      i++;
+    }
+    current.push(token.negated ? (t) => !pred(t) : pred);
+  }
+  alternatives.push(current);
+
+  return [(t) => alternatives.some((all) => all.every((p) => p(t))), i];
+}
+
+// --- Handlers ---
+
+function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "content-type": "application/json",
+      "x-rate-limit-limit": "450",
+      "x-rate-limit-remaining": "449",
+      "x-rate-limit-reset": String(Math.floor(Date.now() / 1000) + 900),
+    },
+  });
+}
+
+function invalidRequest(message: string): Response {
+  return json(
+    {
+      errors: [{ message }],
+      title: "Invalid Request",
+      detail: "One or more parameters to your request was invalid.",
+      type: "https://api.twitter.com/2/problems/invalid-request",
+    },
+    400
+  );
+}
+
+function notFound(kind: "tweet" | "user", value: string): Response {
+  const label = kind === "tweet" ? "tweet with id" : "user with username";
+  return json({
+    errors: [
+      {
+        value,
+        detail: `Could not find ${label}: [${value}].`,
+        title: "Not Found Error",
+        resource_type: kind,
+        type: "https://api.twitter.com/2/problems/resource-not-found",
+      },
+    ],
+  });
+}
+
+/**
+ * Referenced tweets and every author involved, like the expansions do.
+ */
+function withIncludes(data: any[], byId: Map<string, any>, users: Map<string, any>) {
+  const refs = data
+    .flatMap((t) => (t.referenced_tweets || []).map((r: any) => byId.get(r.id)))
+    .filter(Boolean);
+  const authorIds = new Set([...data, ...refs].map((t) => t.author_id));
+  return {
+    users: [...authorIds].map((id) => users.get(id)).filter(Boolean),
+    ...(refs.length > 0 && { tweets: refs }),
+  };
+}
+
+function search(
+  endpoint: string,
+  params: URLSearchParams,
+  data: MockData,
+  users: Map<string, any>,
+  byId: Map<string, any>
+): Response {
+  const query = params.get("query");
+  if (!query) return invalidRequest("The `query` query parameter can not be empty");
+  const errors = q.validate(query, { archive: endpoint === "all" });
+  if (errors.length > 0) return invalidRequest(errors.join("; "));
+
+  const maxResults = parseInt(params.get("max_results") || "10");
+  const limit = PAGE_LIMITS[endpoint];
+  if (!(maxResults >= 10 && maxResults <= limit)) {
+    return invalidRequest(
+      `The \`max_results\` query parameter value [${maxResults}] is not between 10 and ${limit}`
+    );
+  }
+
+  const [predicate] = compile(q.tokenize(query), users);
+  const sinceId = params.get("since_id");
+  const start = params.get("start_time");
+  const end = params.get("end_time");
+  let matches = data.tweets.filter(
+    (t) =>
+      predicate(t) &&
+      (!sinceId || BigInt(t.id) > BigInt(sinceId)) &&
+      (!start || t.created_at >= start) &&
+      (!end || t.created_at < end)
+  );
+  matches =
+    params.get("sort_order") === "relevancy"
+      ? matches.sort((a, b) => b.public_metrics.like_count - a.public_metrics.like_count)
+      : matches.sort((a, b) => (BigInt(b.id) > BigInt(a.id) ? 1 : -1));
+
+  const token = params.get("pagination_token") || params.get("next_token") || "";
+  const offset = parseInt(token.replace(/^mock_/, "")) || 0;
+  const page = matches.slice(offset, offset + maxResults);
+  if (page.length === 0) return json({ meta: { result_count: 0 } });
+
+  const ids = page.map((t) => BigInt(t.id));
+  const max = ids.reduce((a, b) => (b > a ? b : a));
+  const min = ids.reduce((a, b) => (b < a ? b : a));
+  const next = offset + maxResults < matches.length ? `mock_${offset + maxResults}` : undefined;
+  return json({
+    data: page,
+    includes: withIncludes(page, byId, users),
+    meta: {
+      newest_id: String(max),
+      oldest_id: String(min),
+      result_count: page.length,
+      ...(next && { next_token: next }),
+    },
+  });
+}
+
+const BUCKET_MS: Record<string, number> = { minute: 60_000, hour: 3_600_000, day: 86_400_000 };
+// counts/all pages long ranges; real pages are ~31 days of buckets
+const COUNTS_PAGE_BUCKETS = 31;
+
+function counts(endpoint: string, params: URLSearchParams, data: MockData, users: Map<string, any>): Response {
+  const query = params.get("query");
+  if (!query) return invalidRequest("The `query` query parameter can not be empty");
+  const errors = q.validate(query, { archive: endpoint === "all" });
+  if (errors.length > 0) return invalidRequest(errors.join("; "));
+  const granularity = params.get("granularity") || "hour";
+  const step = BUCKET_MS[granularity];
+  if (!step) {
+    return invalidRequest(
+      `The \`granularity\` query parameter value [${granularity}] is not one of [minute,hour,day]`
+    );
+  }
+
+  // Buckets align to the granularity, like the real endpoint
+  const now = Date.now();
+  const defaultStart = now - (endpoint === "all" ? 30 : 7) * 86_400_000;
+  const start = Math.floor(Date.parse(params.get("start_time") || "") || defaultStart);
+  const end = Math.floor(Date.parse(params.get("end_time") || "") || now);
+  const first = Math.floor(start / step) * step;
+
+  const offset = parseInt((params.get("next_token") || "").replace(/^mock_/, "")) || 0;
+  const total = Math.ceil((end - first) / step);
+  const pageSize = endpoint === "all" ? COUNTS_PAGE_BUCKETS : total;
+
+  const [predicate] = compile(q.tokenize(query), users);
+  const times = data.tweets.filter(predicate).map((t) => Date.parse(t.created_at));
+  const buckets = [];
+  for (let i = offset; i < Math.min(offset + pageSize, total); i++) {
+    const from = Math.max(first + i * step, start);
+    const to = Math.min(first + (i + 1) * step, end);
+    buckets.push({
+      start: new Date(first + i * step).toISOString(),
+      end: new Date(first + (i + 1) * step).toISOString(),
+      tweet_count: times.filter((ms) => ms >= from && ms < to).length,
+    });
+  }
+  const next = offset + pageSize < total ? `mock_${offset + pageSize}` : undefined;
+  return json({
+    data: buckets,
+    meta: {
+      total_tweet_count: buckets.reduce((sum, b) => sum + b.tweet_count, 0),
+      ...(next && { next_token: next }),
+    },
+  });
+}
+
+/**
+ * Start the mock on `port` (0 = any free port).
+ */
+export function startMockServer(opts: { port?: number; data?: MockData } = {}): MockServer {
+  const data = opts.data || sampleData();
+  const users = new Map(data.users.map((u) => [u.id, u]));
+  const byId = new Map(data.tweets.map((t) => [t.id, t]));
+  const requests: string[] = [];
+
+  const server = Bun.serve({
+    port: opts.port ?? 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      requests.push(url.pathname + url.search);
+
+      if (!/^Bearer \S+/.test(req.headers.get("authorization") || "")) {
+        return json({ title: "Unauthorized", type: "about:blank", status: 401, detail: "Unauthorized" }, 401);
+      }
+
+      let m: RegExpMatchArray | null;
+      if ((m = url.pathname.match(/^\/2\/tweets\/search\/(recent|all)$/))) {
+        return search(m[1], url.searchParams, data, users, byId);
+      }
+      if ((m = url.pathname.match(/^\/2\/tweets\/counts\/(recent|all)$/))) {
+        return counts(m[1], url.searchParams, data, users);
+      }
+      if ((m = url.pathname.match(/^\/2\/tweets\/(\d+)$/))) {
+        const tweet = byId.get(m[1]);
+        return tweet
+          ? json({ data: tweet, includes: withIncludes([tweet], byId, users) })
+          : notFound("tweet", m[1]);
+      }
+      if ((m = url.pathname.match(/^\/2\/users\/by\/username\/([A-Za-z0-9_]+)$/))) {
+        const name = m[1].toLowerCase();
+        const user = data.users.find((u) => u.username.toLowerCase() === name);
+        return user ? json({ data: user }) : notFound("user", m[1]);
+      }
+      return json({ title: "Not Found", status: 404, detail: `No mock for ${url.pathname}` }, 404);
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}/2`,
+    requests,
+    stop: () => server.stop(true),
+  };
+}
+
+if (import.meta.main) {
+  const argv = process.argv.slice(2);
+  const opt = (name: string) => {
+    const i = argv.indexOf(`--${name}`);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+  const dataFile = opt("data");
+  const server = startMockServer({
+    port: parseInt(opt("port") || "8787"),
+    data: dataFile ? JSON.parse(readFileSync(dataFile, "utf-8")) : undefined,
+  });
+  console.error(`Mock X API on ${server.url}`);
+  console.error(`  X_API_BASE_URL=${server.url} X_BEARER_TOKEN=test bun run x-search.ts search "bun"`);
+}
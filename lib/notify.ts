@@ -0,0 +1,204 @@
+/**
+ * Webhook notifier for new watchlist / saved-search hits.
+ * POSTs tweets to a webhook URL as Slack blocks, Discord embeds or plain
+ * JSON. Every tweet sent is remembered per webhook in data/notified.json,
+ * so the same tweet is never posted to the same hook twice.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { createHash } from "crypto";
+import type { Tweet } from "./api";
+import * as config from "./config";
+import { compactNumber, cleanTcoLinks } from "./format";
+
+const SENT_PATH = join(import.meta.dir, "..", "data", "notified.json");
+// IDs remembered per webhook; old ones can't come back through since_id anyway
+const MAX_SENT_IDS = 5000;
+const MAX_TEXT_LENGTH = 600;
+
+export type TemplateName = "slack" | "discord" | "json";
+export const TEMPLATE_NAMES: TemplateName[] = ["slack", "discord", "json"];
+
+// Tweets per message: Slack allows 50 blocks (3 per tweet), Discord 10 embeds
+const MESSAGE_SIZE: Partial<Record<TemplateName, number>> = { slack: 15, discord: 10 };
+
+export interface Webhook {
+  url: string;
+  template?: TemplateName; // default: guessed from the URL, else json
+  headers?: Record<string, string>; // e.g. auth for a generic endpoint
+}
+
+export interface Notification {
+  title: string; // e.g. "Watchlist: 4 new tweets"
+  tweets: Tweet[];
+  labels?: Record<string, string>; // tweet id → context (account note, search name)
+}
+
+export interface NotifyResult {
+  sent: number;
+  skipped: number; // already sent to this webhook, or repeated in this notification
+  messages: number;
+}
+
+/**
+ * Webhook from --webhook / --template, else X_SEARCH_WEBHOOK_URL, else config "notify".
+ */
+export function resolveWebhook(overrides: { url?: string; template?: string } = {}): Webhook {
+  const configured = config.load().notify;
+  const url = overrides.url || process.env.X_SEARCH_WEBHOOK_URL || configured?.url;
+  if (!url) {
+    throw new Error(
+      'No webhook configured: pass --webhook <url>, set X_SEARCH_WEBHOOK_URL, or add "notify": {"url": ...} to the config'
+    );
+  }
+  const template = overrides.template || configured?.template || guessTemplate(url);
+  if (!TEMPLATE_NAMES.includes(template as TemplateName)) {
+    throw new Error(`Unknown webhook template "${template}" (use ${TEMPLATE_NAMES.join(", ")})`);
+  }
+  return {
+    url,
+    template: template as TemplateName,
+    // Headers only apply to the configured hook, not an ad-hoc --webhook
+    headers: url === configured?.url ? configured?.headers : undefined,
+  };
+}
+
+function guessTemplate(url: string): TemplateName {
+  if (/hooks\.slack\.com/.test(url)) return "slack";
+  if (/discord(app)?\.com\/api\/webhooks/.test(url)) return "discord";
+  return "json";
+}
+
+// --- Dedupe state ---
+
+function hookKey(hook: Webhook): string {
+  return createHash("md5").update(hook.url).digest("hex").slice(0, 12);
+}
+
+function loadSent(): Record<string, string[]> {
+  if (!existsSync(SENT_PATH)) return {};
+  try {
+    return JSON.parse(readFileSync(SENT_PATH, "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+function saveSent(sent: Record<string, string[]>) {
+  writeFileSync(SENT_PATH, JSON.stringify(sent));
+}
+
+// --- Templates ---
+
+function truncate(text: string, max: number = MAX_TEXT_LENGTH): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function metricsLine(t: Tweet): string {
+  const m = t.metrics;
+  return `${compactNumber(m.likes)} likes · ${compactNumber(m.retweets)} RTs · ${compactNumber(m.impressions)} views`;
+}
+
+function slackEscape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function slackPayload(n: Notification, tweets: Tweet[]): unknown {
+  const blocks: unknown[] = [
+    { type: "header", text: { type: "plain_text", text: truncate(n.title, 150) } },
+  ];
+  for (const t of tweets) {
+    const label = n.labels?.[t.id] ? ` · ${slackEscape(n.labels[t.id])}` : "";
+    blocks.push(
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*<${t.tweet_url}|@${t.username}>*${label}\n${slackEscape(truncate(cleanTcoLinks(t.text)))}`,
+        },
+      },
+      { type: "context", elements: [{ type: "mrkdwn", text: `${metricsLine(t)} · ${t.created_at}` }] },
+      { type: "divider" }
+    );
+  }
+  return { text: n.title, blocks };
+}
+
+function discordPayload(n: Notification, tweets: Tweet[]): unknown {
+  return {
+    content: truncate(n.title, 2000),
+    embeds: tweets.map((t) => ({
+      title: truncate(`@${t.username}${n.labels?.[t.id] ? ` · ${n.labels[t.id]}` : ""}`, 256),
+      url: t.tweet_url,
+      description: truncate(cleanTcoLinks(t.text), 4096),
+      timestamp: t.created_at,
+      footer: { text: metricsLine(t) },
+    })),
+  };
+}
+
+function jsonPayload(n: Notification, tweets: Tweet[]): unknown {
+  return {
+    title: n.title,
+    sentAt: new Date().toISOString(),
+    tweets: tweets.map((t) => (n.labels?.[t.id] ? { ...t, label: n.labels[t.id] } : t)),
+  };
+}
+
+function render(template: TemplateName, n: Notification, tweets: Tweet[]): unknown {
+  switch (template) {
+    case "slack":
+      return slackPayload(n, tweets);
+    case "discord":
+      return discordPayload(n, tweets);
+    case "json":
+      return jsonPayload(n, tweets);
+  }
+}
+
+// --- Sending ---
+
+/**
+ * POST the tweets not yet sent to this webhook, each once even if it appears
+ * several times in `n` (e.g. matched by two saved searches). IDs are
+ * recorded after each successful message, so a failure part-way only
+ * resends what didn't arrive.
+ */
+export async function send(hook: Webhook, n: Notification): Promise<NotifyResult> {
+  const sent = loadSent();
+  const key = hookKey(hook);
+  const seen = new Set(sent[key] || []);
+  const fresh = n.tweets.filter((t) => {
+    if (seen.has(t.id)) return false;
+    seen.add(t.id);
+    return true;
+  });
+  const result: NotifyResult = { sent: 0, skipped: n.tweets.length - fresh.length, messages: 0 };
+  if (fresh.length === 0) return result;
+
+  // Slack and Discord cap blocks/embeds per message; generic JSON goes in one
+  const template = hook.template || "json";
+  const size = MESSAGE_SIZE[template] || fresh.length;
+  const batches: Tweet[][] = [];
+  for (let i = 0; i < fresh.length; i += size) batches.push(fresh.slice(i, i + size));
+
+  for (const batch of batches) {
+    const res = await fetch(hook.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...hook.headers },
+      body: JSON.stringify(render(template, n, batch)),
+    });
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Webhook ${res.status}: ${body.slice(0, 200)}`);
+    }
+
+    const ids = [...(sent[key] || []), ...batch.map((t) => t.id)];
+    sent[key] = ids.slice(-MAX_SENT_IDS);
+    saveSent(sent);
+    result.sent += batch.length;
+    result.messages++;
+  }
+  return result;
+}
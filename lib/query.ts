@@ -0,0 +1,281 @@
+/**
+ * X search query parsing, normalization and validation.
+ * Catches the mistakes the API answers with a 400 (unbalanced parens,
+ * dangling OR, unsupported operators like min_faves, over-long queries)
+ * before a request is spent, and appends operators without the substring
+ * checks that confuse `is:retweet` with `-is:retweet` or quoted text.
+ *
+ * Precedence note: X applies implicit AND before OR, so `a OR b from:x`
+ * means `a OR (b from:x)`. and() wraps such queries in parens first.
+ */
+
+export const MAX_LENGTH = { recent: 512, archive: 1024 };
+
+export type TokenKind = "term" | "phrase" | "operator" | "or" | "open" | "close";
+
+export interface Token {
+  kind: TokenKind;
+  text: string; // as rendered, without the leading -
+  negated: boolean;
+  name?: string; // operator name, lowercased (from, is, has, ...)
+  value?: string; // operator value
+}
+
+export interface QueryCheck {
+  query: string; // normalized
+  errors: string[]; // the API would reject the query
+  warnings: string[]; // fixed up during normalization
+}
+
+// v2 operators we know; anything else with a colon is left as a keyword
+const OPERATORS = new Set([
+  "from", "to", "url", "lang", "is", "has", "retweets_of", "conversation_id",
+  "context", "entity", "place", "place_country", "point_radius", "bounding_box",
+  "bio", "bio_name", "bio_location", "in_reply_to_tweet_id", "quotes_of_tweet_id",
+  "retweets_of_tweet_id", "list", "sample", "source",
+]);
+
+// Must be combined with a standalone term (keyword, phrase, from:, url:, ...)
+const CONJUNCTION_REQUIRED = new Set(["is", "has", "lang", "sample"]);
+
+export const IS_VALUES = ["retweet", "reply", "quote", "verified", "nullcast"];
+export const HAS_VALUES = [
+  "links", "media", "images", "video_link", "mentions", "hashtags", "cashtags", "geo",
+];
+
+// Legacy / web-search operators the v2 API rejects, with what to use instead
+const UNSUPPORTED: Record<string, string> = {
+  min_faves: "use --min-likes (filtered after fetching)",
+  min_likes: "use --min-likes (filtered after fetching)",
+  min_retweets: "not available; filter on metrics after fetching",
+  min_replies: "not available; filter on metrics after fetching",
+  filter: "use has:links / has:media / is:reply instead",
+  since: "use --since",
+  until: "use --until",
+  near: "use place: or point_radius:",
+  within: "use point_radius:",
+};
+
+/**
+ * Split a query into terms, "phrases", operators, OR and parens.
+ * An unterminated quote runs to the end of the query.
+ */
+export function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const c = query[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    if (c === ")") {
+      tokens.push({ kind: "close", text: ")", negated: false });
+      i++;
+      continue;
+    }
+
+    const negated = c === "-" && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    if (query[i] === "(") {
+      tokens.push({ kind: "open", text: "(", negated });
+      i++;
+      continue;
+    }
+    if (query[i] === '"') {
+      const end = query.indexOf('"', i + 1);
+      const stop = end === -1 ? query.length : end + 1;
+      tokens.push({ kind: "phrase", text: query.slice(i, stop), negated });
+      i = stop;
+      continue;
+    }
+
+    let j = i;
+    while (j < query.length && !/[\s()]/.test(query[j])) {
+      // Quoted operator values: url:"https://example.com/a b"
+      if (query[j] === '"') {
+        const end = query.indexOf('"', j + 1);
+        j = end === -1 ? query.length : end + 1;
+      } else {
+        j++;
+      }
+    }
+    const text = query.slice(i, j);
+    i = j;
+
+    if (text === "OR" && !negated) {
+      tokens.push({ kind: "or", text, negated });
+      continue;
+    }
+    const op = text.match(/^([a-zA-Z_]+):(.+)$/);
+    if (op && (OPERATORS.has(op[1].toLowerCase()) || op[1].toLowerCase() in UNSUPPORTED)) {
+      const name = op[1].toLowerCase();
+      tokens.push({ kind: "operator", text: `${name}:${op[2]}`, negated, name, value: op[2] });
+      continue;
+    }
+    tokens.push({ kind: "term", text, negated });
+  }
+
+  return tokens;
+}
+
+function render(tokens: Token[]): string {
+  let out = "";
+  tokens.forEach((t, i) => {
+    const prev = tokens[i - 1];
+    if (i > 0 && prev.kind !== "open" && t.kind !== "close") out += " ";
+    out += (t.negated ? "-" : "") + t.text;
+  });
+  return out;
+}
+
+/**
+ * Normalize whitespace and paren spacing, upper-case a bare `or` between
+ * terms and drop `AND` (X ANDs implicitly and would search for the word).
+ */
+export function normalize(query: string): { query: string; warnings: string[] } {
+  const warnings: string[] = [];
+  const tokens: Token[] = [];
+  const raw = tokenize(query);
+
+  raw.forEach((t, i) => {
+    const between = i > 0 && i < raw.length - 1 && raw[i - 1].kind !== "open" && raw[i + 1].kind !== "close";
+    if (t.kind === "term" && !t.negated && between && /^or$/i.test(t.text)) {
+      warnings.push(`"${t.text}" treated as OR (operators must be uppercase)`);
+      tokens.push({ kind: "or", text: "OR", negated: false });
+      return;
+    }
+    if (t.kind === "term" && !t.negated && between && t.text === "AND") {
+      warnings.push('Dropped "AND" (terms are ANDed implicitly)');
+      return;
+    }
+    tokens.push(t);
+  });
+
+  return { query: render(tokens), warnings };
+}
+
+/**
+ * Problems the API would reject the query for. Empty when it looks valid.
+ */
+export function validate(query: string, opts: { archive?: boolean } = {}): string[] {
+  const errors: string[] = [];
+  const tokens = tokenize(query);
+  let depth = 0;
+  let standalone = false;
+
+  if (tokens.length === 0) return ["Query is empty"];
+  if ((query.match(/"/g) || []).length % 2 === 1) errors.push("Unterminated quote");
+
+  tokens.forEach((t, i) => {
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    switch (t.kind) {
+      case "open":
+        depth++;
+        if (next?.kind === "close") errors.push("Empty group ()");
+        break;
+      case "close":
+        if (--depth < 0) {
+          errors.push('Unbalanced parentheses: ")" without matching "("');
+          depth = 0;
+        }
+        break;
+      case "or":
+        if (!prev || prev.kind === "open" || prev.kind === "or") {
+          errors.push("OR needs a term on its left");
+        } else if (!next || next.kind === "close") {
+          errors.push("OR needs a term on its right");
+        }
+        break;
+      case "operator": {
+        const name = t.name!;
+        if (name in UNSUPPORTED) {
+          errors.push(`${name}: is not a v2 search operator — ${UNSUPPORTED[name]}`);
+        } else if (name === "is" && !IS_VALUES.includes(t.value!)) {
+          errors.push(`Unknown is:${t.value} (use ${IS_VALUES.join(", ")})`);
+        } else if (name === "has" && !HAS_VALUES.includes(t.value!)) {
+          errors.push(`Unknown has:${t.value} (use ${HAS_VALUES.join(", ")})`);
+        } else if (name === "lang" && !/^[a-z]{2,3}(-[a-z]{2})?$/.test(t.value!)) {
+          errors.push(`Invalid lang:${t.value} (use a 2-letter code like en, ja, pt)`);
+        }
+        if (!t.negated && !CONJUNCTION_REQUIRED.has(name)) standalone = true;
+        break;
+      }
+      default:
+        if (t.text === "-" || t.text === "") errors.push('Stray "-" (negation needs a term)');
+        else if (!t.negated) standalone = true;
+    }
+  });
+
+  if (depth > 0) errors.push('Unbalanced parentheses: "(" never closed');
+  if (!standalone) {
+    errors.push(
+      "Query needs at least one keyword, phrase, #hashtag or from:/to:/url: term " +
+        "(is:, has:, lang: and negations can't stand alone)"
+    );
+  }
+
+  const max = opts.archive ? MAX_LENGTH.archive : MAX_LENGTH.recent;
+  if (query.length > max) {
+    errors.push(`Query is ${query.length} chars — ${opts.archive ? "search/all" : "search/recent"} allows max ${max}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Normalize, then validate.
+ */
+export function check(query: string, opts: { archive?: boolean } = {}): QueryCheck {
+  const normalized = normalize(query);
+  return {
+    query: normalized.query,
+    errors: validate(normalized.query, opts),
+    warnings: normalized.warnings,
+  };
+}
+
+/**
+ * Whether the query uses an operator (optionally with a given value) —
+ * "include", "exclude" (negated), or undefined. Quoted text doesn't count.
+ */
+export function findOperator(
+  query: string,
+  name: string,
+  value?: string
+): "include" | "exclude" | undefined {
+  const match = tokenize(query).find(
+    (t) =>
+      t.kind === "operator" &&
+      t.name === name &&
+      (value === undefined || t.value!.toLowerCase() === value.toLowerCase())
+  );
+  return match ? (match.negated ? "exclude" : "include") : undefined;
+}
+
+/**
+ * Render an operator, quoting values with characters X would split on.
+ */
+export function operator(name: string, value: string, negated: boolean = false): string {
+  const v = /^[\w.@#$-]+$/.test(value) ? value : `"${value.replace(/"/g, "")}"`;
+  return `${negated ? "-" : ""}${name}:${v}`;
+}
+
+/**
+ * Append terms, wrapping the query in parens if it has a top-level OR so
+ * the new terms apply to every alternative.
+ */
+export function and(query: string, ...terms: string[]): string {
+  if (terms.length === 0) return query;
+  let depth = 0;
+  const topLevelOr = tokenize(query).some((t) => {
+    if (t.kind === "open") depth++;
+    if (t.kind === "close") depth--;
+    return t.kind === "or" && depth === 0;
+  });
+  return [topLevelOr ? `(${query})` : query, ...terms].join(" ");
+}
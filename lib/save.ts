@@ -0,0 +1,78 @@
+/**
+ * Writes --save output to disk.
+ * Directory and filename come from X_SEARCH_SAVE_DIR / X_SEARCH_SAVE_NAME,
+ * then the config file's "save" section, then the defaults below.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { homedir } from "os";
+import * as config from "./config";
+
+const DEFAULT_FILENAME = "x-research-{slug}-{date}";
+const MAX_COLLISIONS = 1000;
+
+/**
+ * ~/clawd/drafts inside a clawd workspace, ./drafts everywhere else.
+ */
+function defaultDir(): string {
+  const clawd = join(homedir(), "clawd");
+  return existsSync(clawd) ? join(clawd, "drafts") : resolve("drafts");
+}
+
+export function saveDir(): string {
+  const dir = process.env.X_SEARCH_SAVE_DIR || config.load().save?.dir;
+  return dir ? resolve(config.expandHome(dir)) : defaultDir();
+}
+
+export function slugify(title: string): string {
+  return (
+    title
+      .replace(/[^a-zA-Z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 40)
+      .toLowerCase() || "untitled"
+  );
+}
+
+/**
+ * Fill the filename template. Unknown placeholders are left as-is.
+ */
+export function fileName(title: string, command: string, now: Date = new Date()): string {
+  const template =
+    process.env.X_SEARCH_SAVE_NAME || config.load().save?.filename || DEFAULT_FILENAME;
+  const [date, clock] = now.toISOString().split("T");
+  const values: Record<string, string> = {
+    slug: slugify(title),
+    date,
+    time: clock.slice(0, 5).replace(":", ""),
+    command: command || "x-search",
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match)
+    .replace(/[\/\\]/g, "-");
+}
+
+/**
+ * Write content to <dir>/<name>.<ext>, creating the directory as needed.
+ * Never overwrites: an existing file gets a -2, -3, ... suffix instead.
+ */
+export function write(
+  content: string,
+  opts: { title: string; command: string; extension: string }
+): string {
+  const dir = saveDir();
+  mkdirSync(dir, { recursive: true });
+  const base = fileName(opts.title, opts.command);
+
+  for (let n = 1; n <= MAX_COLLISIONS; n++) {
+    const path = join(dir, `${base}${n > 1 ? `-${n}` : ""}.${opts.extension}`);
+    try {
+      writeFileSync(path, content, { flag: "wx" });
+      return path;
+    } catch (e: any) {
+      if (e.code !== "EEXIST") throw e;
+    }
+  }
+  throw new Error(`Could not find a free filename for ${join(dir, base)}.${opts.extension}`);
+}
@@ -0,0 +1,290 @@
+/**
+ * Persistent local archive of every tweet and user the API returns.
+ * Unlike the cache, nothing expires: tweets are upserted into
+ * data/archive.sqlite with a metric snapshot per fetch, and can be
+ * searched offline with full-text queries.
+ */
+
+import { Database } from "bun:sqlite";
+import { join } from "path";
+import type { Tweet } from "./api";
+import * as q from "./query";
+
+const DB_PATH = join(import.meta.dir, "..", "data", "archive.sqlite");
+
+let db: Database | null = null;
+
+function open(): Database {
+  if (db) return db;
+  db = new Database(DB_PATH, { create: true });
+  db.run("PRAGMA journal_mode = WAL");
+  db.run(`CREATE TABLE IF NOT EXISTS tweets (
+    id TEXT PRIMARY KEY,
+    author_id TEXT,
+    username TEXT,
+    created_at TEXT,
+    json TEXT NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL
+  )`);
+  db.run(`CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT,
+    json TEXT NOT NULL,
+    last_seen TEXT NOT NULL
+  )`);
+  db.run(`CREATE TABLE IF NOT EXISTS metric_snapshots (
+    tweet_id TEXT NOT NULL,
+    fetched_at TEXT NOT NULL,
+    likes INTEGER, retweets INTEGER, replies INTEGER,
+    quotes INTEGER, impressions INTEGER, bookmarks INTEGER
+  )`);
+  db.run("CREATE INDEX IF NOT EXISTS idx_snapshots_tweet ON metric_snapshots (tweet_id, fetched_at)");
+  db.run("CREATE INDEX IF NOT EXISTS idx_tweets_username ON tweets (username COLLATE NOCASE)");
+  db.run("CREATE VIRTUAL TABLE IF NOT EXISTS tweets_fts USING fts5(id UNINDEXED, text)");
+  return db;
+}
+
+/**
+ * Upsert tweets (and their quoted/replied/retweeted tweets) with a metric snapshot each.
+ */
+export function saveTweets(tweets: Tweet[]): void {
+  if (tweets.length === 0) return;
+  const d = open();
+  const now = new Date().toISOString();
+
+  const upsert = d.prepare(`INSERT INTO tweets (id, author_id, username, created_at, json, first_seen, last_seen)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET username = excluded.username, json = excluded.json, last_seen = excluded.last_seen`);
+  const snapshot = d.prepare(`INSERT INTO metric_snapshots
+    (tweet_id, fetched_at, likes, retweets, replies, quotes, impressions, bookmarks)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)`);
+  const unindex = d.prepare("DELETE FROM tweets_fts WHERE id = ?");
+  const index = d.prepare("INSERT INTO tweets_fts (id, text) VALUES (?, ?)");
+
+  const all = tweets.flatMap((t) =>
+    [t, t.quoted, t.replied_to, t.retweeted].filter(Boolean) as Tweet[]
+  );
+
+  d.transaction(() => {
+    for (const t of all) {
+      upsert.run(t.id, t.author_id, t.username, t.created_at, JSON.stringify(t), now, now);
+      const m = t.metrics;
+      snapshot.run(t.id, now, m.likes, m.retweets, m.replies, m.quotes, m.impressions, m.bookmarks);
+      unindex.run(t.id);
+      index.run(t.id, `${t.text} @${t.username} ${t.hashtags.map((h) => `#${h}`).join(" ")}`);
+    }
+  })();
+}
+
+/**
+ * Upsert raw user objects (from includes.users or a user lookup).
+ */
+export function saveUsers(users: any[]): void {
+  if (users.length === 0) return;
+  const d = open();
+  const now = new Date().toISOString();
+  const upsert = d.prepare(`INSERT INTO users (id, username, json, last_seen) VALUES (?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET username = excluded.username, json = excluded.json, last_seen = excluded.last_seen`);
+  d.transaction(() => {
+    for (const u of users) {
+      if (u?.id) upsert.run(u.id, u.username, JSON.stringify(u), now);
+    }
+  })();
+}
+
+/**
+ * Translate an X-style query into FTS5 match expressions plus username
+ * filters. Supports words, "phrases", OR, (groups), -negation and
+ * from:user; other operators (is:, has:, lang:, ...) are ignored locally.
+ *
+ * FTS5's NOT is binary (`a NOT b`), so negations move after the positive
+ * terms of their group. A query whose only positive part is from: comes
+ * back as `exclude` (matched tweets are removed); a group with nothing
+ * positive to subtract from (`bun OR -deno`) is an error.
+ *
+ * from: filters the whole query, so it must be ANDed with it: at the top
+ * level, or in a group of nothing but from: alternatives
+ * (`(from:a OR from:b) bun`). Inside any other OR it's an error rather than
+ * a filter on every alternative.
+ */
+export function toMatch(query: string): { match: string; exclude: string; from: string[][] } {
+  const tokens = q.tokenize(query);
+  let i = 0;
+
+  // from: holds username sets, each one OR'ed within and AND'ed together
+  type Alternative = { positive: string[]; negative: string[]; from: string[][] };
+  const empty = (): Alternative => ({ positive: [], negative: [], from: [] });
+  const fromInOr = () =>
+    new Error(
+      "Local search can't apply from: inside an OR group — use (from:a OR from:b) on its own, or search each separately"
+    );
+
+  // One group up to its closing paren: alternatives split on OR
+  const group = (): Alternative[] => {
+    const alternatives = [empty()];
+    while (i < tokens.length) {
+      const t = tokens[i++];
+      const current = alternatives[alternatives.length - 1];
+      let expr: string | undefined;
+
+      if (t.kind === "close") break;
+      if (t.kind === "or") {
+        alternatives.push(empty());
+        continue;
+      }
+      if (t.kind === "open") {
+        const inner = group();
+        const authorsOnly = inner.every(
+          (a) => a.positive.length === 0 && a.negative.length === 0 && a.from.length === 1
+        );
+        if (inner.length > 0 && authorsOnly) {
+          if (t.negated) throw fromInOr();
+          current.from.push(inner.flatMap((a) => a.from[0]));
+          continue;
+        }
+        if (inner.some((a) => a.from.length > 0)) {
+          if (inner.length > 1 || t.negated) throw fromInOr();
+          current.from.push(...inner[0].from);
+        }
+        expr = render(inner);
+      } else if (t.kind === "operator") {
+        if (t.name === "from" && !t.negated) current.from.push([t.value!.replace(/^@/, "").toLowerCase()]);
+        continue;
+      } else {
+        const text = t.text.replace(/"/g, "").trim();
+        if (text) expr = `"${text}"`;
+      }
+      if (expr) (t.negated ? current.negative : current.positive).push(expr);
+    }
+    return alternatives.filter((a) => a.positive.length > 0 || a.negative.length > 0 || a.from.length > 0);
+  };
+
+  // from: sets are taken out by the caller; only the text terms render here
+  const render = (alternatives: Alternative[]): string | undefined => {
+    const parts = alternatives
+      .filter((a) => a.positive.length > 0 || a.negative.length > 0)
+      .map((a) => {
+        if (a.positive.length === 0) {
+          const negated = a.negative.map((n) => `-${n}`).join(" ");
+          throw new Error(
+            `Local search can't match ${negated} on its own — add a term to subtract it from`
+          );
+        }
+        const positive = a.positive.join(" AND ");
+        return a.negative.length > 0 ? `(${positive}) NOT ${a.negative.join(" NOT ")}` : positive;
+      });
+    if (parts.length === 0) return undefined;
+    return parts.length === 1 ? `(${parts[0]})` : `(${parts.map((p) => `(${p})`).join(" OR ")})`;
+  };
+
+  const top = group();
+  if (top.length > 1 && top.some((a) => a.from.length > 0)) throw fromInOr();
+  const from = top[0]?.from || [];
+  // Only from: on the positive side: a plain username filter minus the negations
+  if (top.length === 1 && top[0].positive.length === 0 && from.length > 0) {
+    return { match: "", exclude: top[0].negative.join(" OR "), from };
+  }
+  return { match: render(top) || "", exclude: "", from };
+}
+
+export interface MetricSnapshot {
+  fetched_at: string;
+  likes: number;
+  retweets: number;
+  replies: number;
+  quotes: number;
+  impressions: number;
+  bookmarks: number;
+}
+
+/**
+ * Metric snapshots per tweet, oldest first.
+ */
+export function history(tweetIds: string[]): Map<string, MetricSnapshot[]> {
+  const out = new Map<string, MetricSnapshot[]>();
+  if (tweetIds.length === 0) return out;
+  const d = open();
+  const rows = d
+    .query(
+      `SELECT tweet_id, fetched_at, likes, retweets, replies, quotes, impressions, bookmarks
+       FROM metric_snapshots WHERE tweet_id IN (${tweetIds.map(() => "?").join(", ")})
+       ORDER BY fetched_at ASC`
+    )
+    .all(...tweetIds) as (MetricSnapshot & { tweet_id: string })[];
+  for (const { tweet_id, ...snap } of rows) {
+    const list = out.get(tweet_id) || [];
+    list.push(snap);
+    out.set(tweet_id, list);
+  }
+  return out;
+}
+
+/**
+ * Latest stored raw user objects by ID (missing IDs are skipped).
+ */
+export function users(userIds: string[]): Map<string, any> {
+  const out = new Map<string, any>();
+  if (userIds.length === 0) return out;
+  const rows = open()
+    .query(`SELECT id, json FROM users WHERE id IN (${userIds.map(() => "?").join(", ")})`)
+    .all(...userIds) as { id: string; json: string }[];
+  for (const row of rows) out.set(row.id, JSON.parse(row.json));
+  return out;
+}
+
+export interface LocalQuery {
+  since?: string; // ISO 8601
+  until?: string; // ISO 8601
+  limit?: number;
+}
+
+/**
+ * Full-text search over the local archive. Returns the latest stored
+ * version of each tweet, newest first.
+ */
+export function search(query: string, opts: LocalQuery = {}): Tweet[] {
+  const d = open();
+  const { match, exclude, from } = toMatch(query);
+  const where: string[] = [];
+  const params: any[] = [];
+
+  if (match) {
+    where.push("t.id IN (SELECT id FROM tweets_fts WHERE tweets_fts MATCH ?)");
+    params.push(match);
+  }
+  if (exclude) {
+    where.push("t.id NOT IN (SELECT id FROM tweets_fts WHERE tweets_fts MATCH ?)");
+    params.push(exclude);
+  }
+  for (const authors of from) {
+    where.push(`lower(t.username) IN (${authors.map(() => "?").join(", ")})`);
+    params.push(...authors);
+  }
+  if (opts.since) {
+    where.push("t.created_at >= ?");
+    params.push(opts.since);
+  }
+  if (opts.until) {
+    where.push("t.created_at <= ?");
+    params.push(opts.until);
+  }
+
+  const sql = `SELECT t.json FROM tweets t
+    ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY t.created_at DESC
+    ${opts.limit ? `LIMIT ${Math.floor(opts.limit)}` : ""}`;
+  return (d.query(sql).all(...params) as { json: string }[]).map((r) => JSON.parse(r.json));
+}
+
+export function stats(): { tweets: number; users: number; snapshots: number; path: string } {
+  const d = open();
+  const count = (table: string) =>
+    (d.query(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+  return {
+    tweets: count("tweets"),
+    users: count("users"),
+    snapshots: count("metric_snapshots"),
+    path: DB_PATH,
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Group tweets into themes for research docs.
+ * Themes come from a JSON file (tweet IDs or keyword rules) and/or a local
+ * clustering pass over shared hashtags, linked domains and keywords.
+ */
+
+import { readFileSync } from "fs";
+import type { Tweet } from "./api";
+
+export interface Theme {
+  title: string;
+  tweetIds: string[];
+}
+
+/**
+ * Match rules for a theme. A tweet matches if any rule matches.
+ */
+export interface ThemeRule {
+  tweetIds?: string[];
+  keywords?: string[]; // case-insensitive substring of the text
+  hashtags?: string[]; // without the #
+  domains?: string[]; // linked domain, subdomains included
+  from?: string[]; // author usernames
+}
+
+const MAX_AUTO_THEMES = 6;
+// In sets of 5+, a feature shared by more than this share of tweets is the
+// topic itself, not a theme
+const MAX_FEATURE_SHARE = 0.6;
+// Links back to X itself (quoted posts, t.co) say nothing about a topic
+export const SELF_DOMAINS = new Set(["x.com", "twitter.com", "t.co"]);
+
+const STOPWORDS = new Set(
+  (
+    "about after again also been before being below between both cant could didnt does doesnt " +
+    "doing dont down during each even every from further have having here into just like made " +
+    "make many more most much must need only other over really same should some such than that " +
+    "thats their them then there these they thing things think this those through under until very " +
+    "want were what when where which while will with without would your youre yours going know " +
+    "still well back right good great people today time year years first last next " +
+    "http https amp"
+  ).split(/\s+/)
+);
+
+/**
+ * Load themes from a JSON file. Accepts either
+ *   { "Title": ["tweet_id", ...], "Other title": { "keywords": [...] } }
+ * or an array of { "title": "...", ...ThemeRule }.
+ */
+export function loadThemeRules(path: string): { title: string; rule: ThemeRule }[] {
+  const raw = JSON.parse(readFileSync(path, "utf-8"));
+
+  if (Array.isArray(raw)) {
+    return raw.map(({ title, ...rule }: any) => {
+      if (!title) throw new Error(`Theme in ${path} is missing a "title"`);
+      return { title, rule };
+    });
+  }
+
+  return Object.entries(raw).map(([title, value]: [string, any]) => ({
+    title,
+    rule: Array.isArray(value) ? { tweetIds: value.map(String) } : value,
+  }));
+}
+
+/**
+ * Hostname without www., lowercased; null for unparseable URLs.
+ */
+export function domainOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function matchesRule(t: Tweet, rule: ThemeRule): boolean {
+  const text = t.text.toLowerCase();
+  const tags = t.hashtags.map((h) => h.toLowerCase());
+  const domains = t.urls.map(domainOf).filter(Boolean) as string[];
+
+  if (rule.tweetIds?.includes(t.id)) return true;
+  if (rule.keywords?.some((k) => text.includes(k.toLowerCase()))) return true;
+  if (rule.hashtags?.some((h) => tags.includes(h.replace(/^#/, "").toLowerCase())))
+    return true;
+  if (
+    rule.domains?.some((d) => {
+      const want = d.toLowerCase().replace(/^www\./, "");
+      return domains.some((have) => have === want || have.endsWith(`.${want}`));
+    })
+  )
+    return true;
+  if (rule.from?.some((u) => u.replace(/^@/, "").toLowerCase() === t.username.toLowerCase()))
+    return true;
+  return false;
+}
+
+/**
+ * Assign tweets to file-defined themes. A tweet can land in several themes.
+ * Tweets keep their input order (i.e. whatever sort was applied).
+ */
+export function applyThemeRules(
+  tweets: Tweet[],
+  rules: { title: string; rule: ThemeRule }[]
+): Theme[] {
+  return rules
+    .map(({ title, rule }) => ({
+      title,
+      tweetIds: tweets.filter((t) => matchesRule(t, rule)).map((t) => t.id),
+    }))
+    .filter((theme) => theme.tweetIds.length > 0);
+}
+
+/**
+ * Candidate clustering features for a tweet: hashtags, linked domains, keywords.
+ */
+function features(t: Tweet, exclude: Set<string>): Set<string> {
+  const out = new Set<string>();
+  for (const h of t.hashtags) out.add(`#${h.toLowerCase()}`);
+  for (const u of t.urls) {
+    const d = domainOf(u);
+    if (d && !SELF_DOMAINS.has(d)) out.add(`@@${d}`);
+  }
+  const words = t.text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, "")
+    .match(/[a-z][a-z0-9'.-]{3,}/g) || [];
+  for (const raw of words) {
+    const w = raw.replace(/['.-]+$/, "").replace(/'/g, "");
+    if (w.length < 4 || STOPWORDS.has(w) || exclude.has(w)) continue;
+    out.add(w);
+  }
+  return out;
+}
+
+function featureTitle(feature: string): string {
+  if (feature.startsWith("#")) return feature;
+  if (feature.startsWith("@@")) return `Links to ${feature.slice(2)}`;
+  return `"${feature}"`;
+}
+
+/**
+ * Cluster tweets locally by their most widely shared hashtag, linked domain
+ * or keyword. Greedy: the feature covering the most unassigned tweets becomes
+ * a theme, repeat. Leftovers go to "Other".
+ *
+ * `exclude` should hold the query's own terms so the topic itself isn't a theme.
+ */
+export function autoThemes(
+  tweets: Tweet[],
+  opts: { exclude?: string[]; maxThemes?: number } = {}
+): Theme[] {
+  const exclude = new Set(
+    (opts.exclude || []).flatMap((q) => q.toLowerCase().match(/[a-z0-9]+/g) || [])
+  );
+  const maxThemes = opts.maxThemes || MAX_AUTO_THEMES;
+  const featureSets = new Map(tweets.map((t) => [t.id, features(t, exclude)]));
+  // Tie-break weight for features: likes, with retweets counting double
+  const clusterWeight = (t: Tweet) => t.metrics.likes + t.metrics.retweets * 2;
+
+  const themes: Theme[] = [];
+  let remaining = [...tweets];
+
+  while (themes.length < maxThemes && remaining.length >= 2) {
+    // Score each feature by how many unassigned tweets share it, weight as tie-break
+    const scores = new Map<string, { count: number; weight: number }>();
+    for (const t of remaining) {
+      for (const f of featureSets.get(t.id)!) {
+        const s = scores.get(f) || { count: 0, weight: 0 };
+        s.count++;
+        s.weight += clusterWeight(t);
+        scores.set(f, s);
+      }
+    }
+
+    let best: string | undefined;
+    let bestScore = { count: 0, weight: -1 };
+    for (const [f, s] of scores) {
+      if (s.count < 2) continue;
+      if (tweets.length >= 5 && s.count / tweets.length > MAX_FEATURE_SHARE) continue;
+      if (
+        s.count > bestScore.count ||
+        (s.count === bestScore.count && s.weight > bestScore.weight)
+      ) {
+        best = f;
+        bestScore = s;
+      }
+    }
+    if (!best) break;
+
+    const members = remaining.filter((t) => featureSets.get(t.id)!.has(best!));
+    themes.push({ title: featureTitle(best), tweetIds: members.map((t) => t.id) });
+    remaining = remaining.filter((t) => !featureSets.get(t.id)!.has(best!));
+  }
+
+  if (remaining.length > 0 && themes.length > 0) {
+    themes.push({ title: "Other", tweetIds: remaining.map((t) => t.id) });
+  }
+
+  return themes;
+}
+
+/**
+ * Build themes for a doc: file rules first (if given), then auto-cluster
+ * whatever they didn't cover.
+ */
+export function buildThemes(
+  tweets: Tweet[],
+  opts: { rulesPath?: string; exclude?: string[] } = {}
+): Theme[] {
+  if (!opts.rulesPath) return autoThemes(tweets, { exclude: opts.exclude });
+
+  const themes = applyThemeRules(tweets, loadThemeRules(opts.rulesPath));
+  const covered = new Set(themes.flatMap((t) => t.tweetIds));
+  const rest = tweets.filter((t) => !covered.has(t.id));
+  if (rest.length === 0) return themes;
+
+  const fallback = autoThemes(rest, { exclude: opts.exclude });
+  if (fallback.length === 0) {
+    themes.push({ title: "Other", tweetIds: rest.map((t) => t.id) });
+  } else {
+    themes.push(...fallback);
+  }
+  return themes;
+}
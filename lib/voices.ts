@@ -0,0 +1,83 @@
+/**
+ * Author ranking over a set of search results: who is driving the
+ * conversation, by total engagement, engagement per tweet, volume or reach.
+ * Pure functions, no API calls.
+ */
+
+import type { Tweet } from "./api";
+import { engagement } from "./metrics";
+
+export type VoiceRank = "engagement" | "per-tweet" | "tweets" | "followers";
+
+export const VOICE_RANKS: VoiceRank[] = ["engagement", "per-tweet", "tweets", "followers"];
+
+export interface Voice {
+  author_id: string;
+  username: string;
+  name: string;
+  followers?: number; // unknown when neither the response nor the archive had the user
+  tweets: number;
+  likes: number;
+  retweets: number;
+  replies: number;
+  quotes: number;
+  impressions: number;
+  engagement: number; // likes + retweets + replies + quotes, summed
+  perTweet: number; // engagement / tweets
+  topTweet: Tweet; // most-liked tweet in the set
+}
+
+const SORTERS: Record<VoiceRank, (v: Voice) => number> = {
+  engagement: (v) => v.engagement,
+  "per-tweet": (v) => v.perTweet,
+  tweets: (v) => v.tweets,
+  followers: (v) => v.followers || 0,
+};
+
+/**
+ * Group tweets by author and rank the authors. Ties fall back to total
+ * engagement, then username, so output is stable across runs.
+ */
+export function rankVoices(
+  tweets: Tweet[],
+  opts: { rank?: VoiceRank; minTweets?: number } = {}
+): Voice[] {
+  const byAuthor = new Map<string, Voice>();
+
+  for (const t of tweets) {
+    let v = byAuthor.get(t.author_id);
+    if (!v) {
+      v = {
+        author_id: t.author_id,
+        username: t.username,
+        name: t.name,
+        followers: t.author_followers,
+        tweets: 0,
+        likes: 0,
+        retweets: 0,
+        replies: 0,
+        quotes: 0,
+        impressions: 0,
+        engagement: 0,
+        perTweet: 0,
+        topTweet: t,
+      };
+      byAuthor.set(t.author_id, v);
+    }
+    v.tweets++;
+    v.likes += t.metrics.likes;
+    v.retweets += t.metrics.retweets;
+    v.replies += t.metrics.replies;
+    v.quotes += t.metrics.quotes;
+    v.impressions += t.metrics.impressions;
+    v.engagement += engagement(t);
+    if (v.followers === undefined) v.followers = t.author_followers;
+    if (t.metrics.likes > v.topTweet.metrics.likes) v.topTweet = t;
+  }
+
+  const key = SORTERS[opts.rank || "engagement"];
+  return [...byAuthor.values()]
+    .map((v) => ({ ...v, perTweet: v.engagement / v.tweets }))
+    .filter((v) => v.tweets >= (opts.minTweets || 1))
+    .sort((a, b) => key(b) - key(a) || b.engagement - a.engagement || a.username.localeCompare(b.username));
+}
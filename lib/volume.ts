@@ -0,0 +1,62 @@
+/**
+ * Volume timeline analysis over tweet counts: baseline, peak and spikes.
+ * A spike is a bucket far above the median, measured in robust standard
+ * deviations (median absolute deviation), with a Poisson floor so quiet
+ * topics don't flag every bucket that doubles from 1 to 2. Pure functions.
+ */
+
+import type { CountBucket, Granularity } from "./api";
+import { median } from "./metrics";
+
+export interface VolumeBucket extends CountBucket {
+  score: number; // (count - baseline) / spread
+  spike: boolean;
+}
+
+export interface Volume {
+  granularity: Granularity;
+  total: number;
+  baseline: number; // median bucket
+  spread: number; // robust deviation used for scores
+  peak?: VolumeBucket;
+  buckets: VolumeBucket[];
+  spikes: VolumeBucket[]; // highest score first
+}
+
+// Scores at or above this are spikes
+export const DEFAULT_SPIKE_THRESHOLD = 4;
+// MAD × this estimates the standard deviation for normal data
+const MAD_SCALE = 1.4826;
+
+/**
+ * Baseline, spread and spike flags for a series of count buckets.
+ */
+export function analyzeVolume(
+  buckets: CountBucket[],
+  opts: { granularity: Granularity; total?: number; threshold?: number }
+): Volume {
+  const threshold = opts.threshold ?? DEFAULT_SPIKE_THRESHOLD;
+  const counts = buckets.map((b) => b.count);
+  const baseline = median(counts);
+  const mad = median(counts.map((c) => Math.abs(c - baseline)));
+  const spread = Math.max(mad * MAD_SCALE, Math.sqrt(baseline), 1);
+
+  const scored = buckets.map((b): VolumeBucket => {
+    const score = (b.count - baseline) / spread;
+    return { ...b, score, spike: score >= threshold };
+  });
+  const peak = scored.reduce<VolumeBucket | undefined>(
+    (max, b) => (!max || b.count > max.count ? b : max),
+    undefined
+  );
+
+  return {
+    granularity: opts.granularity,
+    total: opts.total ?? counts.reduce((sum, c) => sum + c, 0),
+    baseline,
+    spread,
+    peak,
+    buckets: scored,
+    spikes: scored.filter((b) => b.spike).sort((a, b) => b.score - a.score),
+  };
+}
@@ -0,0 +1,38 @@
+import { expect, test } from "bun:test";
+import type { Tweet } from "../lib/api";
+import { formatCsv } from "../lib/format";
+
+function tweet(text: string, extra: Partial<Tweet> = {}): Tweet {
+  return {
+    id: "1",
+    text,
+    author_id: "101",
+    username: "alice",
+    name: "Alice",
+    created_at: "2026-01-01T00:00:00.000Z",
+    conversation_id: "1",
+    metrics: { likes: 1, retweets: 0, replies: 0, quotes: 0, impressions: 10, bookmarks: 0 },
+    urls: [],
+    mentions: [],
+    hashtags: [],
+    tweet_url: "https://x.com/alice/status/1",
+    ...extra,
+  };
+}
+
+// Text column of the single data row (no commas or quotes in these cases)
+const textCell = (csv: string) => csv.split("\n")[1].split(",")[4];
+
+test("csv escapes cells a spreadsheet would run as formulas", () => {
+  expect(textCell(formatCsv([tweet("=HYPERLINK(1)")]))).toBe("'=HYPERLINK(1)");
+  expect(textCell(formatCsv([tweet("+1 for this")]))).toBe("'+1 for this");
+  expect(textCell(formatCsv([tweet("-2 points")]))).toBe("'-2 points");
+  expect(textCell(formatCsv([tweet("@bob agreed")]))).toBe("'@bob agreed");
+  expect(formatCsv([tweet("=1+1", { name: "@evil" })])).toContain(",'@evil,'=1+1,");
+});
+
+test("csv leaves ordinary text and numbers alone, and quotes commas", () => {
+  expect(textCell(formatCsv([tweet("bun is fast")]))).toBe("bun is fast");
+  expect(formatCsv([tweet("a, \"b\"")])).toContain(`,"a, ""b""",1,`);
+  expect(formatCsv([tweet("=x, y")])).toContain(`,"'=x, y",`);
+});
@@ -0,0 +1,27 @@
+import { expect, test } from "bun:test";
+import * as q from "../lib/query";
+
+test("valid queries have no errors", () => {
+  expect(q.validate('(bun OR deno) "fast runtime" -is:retweet lang:en has:links')).toEqual([]);
+});
+
+test("validate reports malformed queries", () => {
+  expect(q.validate('"bun runtime')).toContain("Unterminated quote");
+  expect(q.validate("bun)")).toContain('Unbalanced parentheses: ")" without matching "("');
+  expect(q.validate("bun ()")).toContain("Empty group ()");
+  expect(q.validate("OR bun")).toContain("OR needs a term on its left");
+  expect(q.validate("bun OR")).toContain("OR needs a term on its right");
+});
+
+test("validate rejects operators v2 search doesn't have", () => {
+  expect(q.validate("bun min_faves:10")[0]).toMatch(/^min_faves: is not a v2 search operator/);
+  expect(q.validate("bun is:popular")[0]).toMatch(/^Unknown is:popular/);
+  expect(q.validate("bun has:gifs")[0]).toMatch(/^Unknown has:gifs/);
+  expect(q.validate("bun lang:english")[0]).toMatch(/^Invalid lang:english/);
+});
+
+test("normalize drops explicit AND with a warning", () => {
+  const { query, warnings } = q.normalize("bun AND deno");
+  expect(query).toBe("bun deno");
+  expect(warnings).toHaveLength(1);
+});
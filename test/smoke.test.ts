@@ -0,0 +1,62 @@
+/**
+ * End-to-end smoke tests: the client against the local mock X API. No token
+ * or network needed, and mock calls skip the cache, archive and ledger file.
+ *
+ *   bun test
+ */
+
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { XResearchClient } from "../lib/client";
+import { startMockServer, type MockServer } from "../lib/mock-server";
+
+let mock: MockServer;
+let client: XResearchClient;
+
+beforeAll(() => {
+  process.env.X_BEARER_TOKEN ||= "test";
+  mock = startMockServer();
+  client = new XResearchClient({ baseUrl: mock.url });
+});
+
+afterAll(() => mock.stop());
+
+test("search pages through the mock and parses tweets", async () => {
+  const { query, tweets, stats } = await client.search("bun", { pages: 2, sort: "recent" });
+
+  expect(query).toContain("-is:retweet");
+  expect(tweets.length).toBeGreaterThan(0);
+  expect(tweets.every((t) => /bun/i.test(t.text))).toBe(true);
+  expect(tweets.every((t) => t.username && t.tweet_url.includes(t.id))).toBe(true);
+  expect(stats.apiCalls).toBeGreaterThan(0);
+  expect(mock.requests.some((r) => r.startsWith("/2/tweets/search/recent"))).toBe(true);
+});
+
+test("counts returns buckets that add up to the total", async () => {
+  const { volume } = await client.counts("bun", { granularity: "hour" });
+
+  expect(volume.buckets.length).toBeGreaterThan(0);
+  expect(volume.total).toBeGreaterThan(0);
+  expect(volume.buckets.reduce((sum, b) => sum + b.count, 0)).toBe(volume.total);
+  expect(mock.requests.some((r) => r.startsWith("/2/tweets/counts/recent"))).toBe(true);
+});
+
+test("an incremental search returns only newer tweets and says when pages cut it short", async () => {
+  const sinceId = "1900000000000000010";
+  const query = "from:alice OR from:bob OR from:carol";
+
+  const short = await client.search(query, { sinceId, pages: 1, sort: "recent", cache: false });
+  expect(short.tweets.every((t) => BigInt(t.id) > BigInt(sinceId))).toBe(true);
+  expect(short.stats.truncated).toBe(true);
+  expect(short.stats.newestId).toBe("1900000000000000149");
+
+  const full = await client.search(query, { sinceId, pages: 2, sort: "recent", cache: false });
+  expect(full.stats.truncated).toBe(false);
+  expect(full.stats.raw).toBeGreaterThan(short.stats.raw);
+});
+
+test("an invalid query fails before any request is made", async () => {
+  mock.requests.length = 0;
+  await expect(client.search("bun min_faves:10")).rejects.toThrow(/not a v2 search operator/);
+  await expect(client.counts("(bun")).rejects.toThrow(/Invalid query/);
+  expect(mock.requests).toEqual([]);
+});
@@ -0,0 +1,42 @@
+import { expect, test } from "bun:test";
+import { toMatch } from "../lib/store";
+
+test("local queries translate to FTS5 with negations after positives", () => {
+  expect(toMatch("bun runtime")).toEqual({ match: '("bun" AND "runtime")', exclude: "", from: [] });
+  expect(toMatch('-deno "bun runtime"').match).toBe('(("bun runtime") NOT "deno")');
+  expect(toMatch("bun OR deno").match).toBe('(("bun") OR ("deno"))');
+  expect(toMatch("(bun OR deno) fast -slow").match).toBe('(((("bun") OR ("deno")) AND "fast") NOT "slow")');
+});
+
+test("operators other than from: are ignored locally", () => {
+  expect(toMatch("bun -is:retweet lang:en").match).toBe('("bun")');
+});
+
+test("from: becomes a username filter, ANDed with the rest", () => {
+  expect(toMatch("from:Alice bun")).toEqual({ match: '("bun")', exclude: "", from: [["alice"]] });
+  expect(toMatch("(from:alice OR from:@bob) bun").from).toEqual([["alice", "bob"]]);
+  expect(toMatch("from:alice from:bob").from).toEqual([["alice"], ["bob"]]);
+  expect(toMatch("(from:alice bun) deno")).toEqual({
+    match: '(("bun") AND "deno")',
+    exclude: "",
+    from: [["alice"]],
+  });
+});
+
+test("a query of only from: and negations excludes instead of matching", () => {
+  expect(toMatch("from:alice -bun -deno")).toEqual({
+    match: "",
+    exclude: '"bun" OR "deno"',
+    from: [["alice"]],
+  });
+});
+
+test("from: inside an OR is an error, not a filter on every alternative", () => {
+  expect(() => toMatch("bun OR from:alice")).toThrow(/from: inside an OR/);
+  expect(() => toMatch("(from:alice bun) OR deno")).toThrow(/from: inside an OR/);
+});
+
+test("a negation with nothing to subtract from is an error", () => {
+  expect(() => toMatch("bun OR -deno")).toThrow(/can't match -"deno" on its own/);
+  expect(() => toMatch("-deno")).toThrow(/on its own/);
+});
@@ -0,0 +1,151 @@
+/**
+ * Watchlist "new since last check" state against the mock X API. Each test
+ * gets its own watchlist file; state is edited directly to stand in for
+ * earlier checks.
+ */
+
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { XResearchClient, type WatchlistAccount } from "../lib/client";
+import { startMockServer, type MockServer } from "../lib/mock-server";
+
+const OLD_ID = "1900000000000000010"; // early in the mock dataset
+const DAY_MS = 86_400_000;
+
+let mock: MockServer;
+let dir: string;
+let failFor: string | undefined; // requests whose URL contains this get a 403
+
+beforeAll(() => {
+  process.env.X_BEARER_TOKEN ||= "test";
+  mock = startMockServer();
+  dir = mkdtempSync(join(tmpdir(), "x-search-watchlist-"));
+});
+
+afterAll(() => {
+  mock.stop();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+let files = 0;
+function setup(usernames: string[]) {
+  const path = join(dir, `watchlist-${files++}.json`);
+  writeFileSync(path, JSON.stringify({ accounts: [] }));
+  const client = new XResearchClient({
+    baseUrl: mock.url,
+    watchlistPath: path,
+    fetch: (url, init) =>
+      failFor && url.includes(failFor)
+        ? Promise.resolve(new Response(JSON.stringify({ title: "Forbidden" }), { status: 403 }))
+        : fetch(url, init),
+  });
+  for (const name of usernames) client.watchlistAdd(name);
+  const edit = (fn: (a: WatchlistAccount) => void, only?: string) => {
+    const data = JSON.parse(readFileSync(path, "utf-8"));
+    for (const a of data.accounts) if (!only || a.username === only) fn(a);
+    writeFileSync(path, JSON.stringify(data));
+  };
+  return { client, edit };
+}
+
+// Search requests made since the last call, decoded
+function searches(): string[] {
+  return mock.requests
+    .splice(0)
+    .filter((r) => r.startsWith("/2/tweets/search/"))
+    .map(decodeURIComponent);
+}
+
+test("the first check shows the latest 3 per account, later ones only new tweets via since_id", async () => {
+  const { client } = setup(["alice", "bob", "carol"]);
+  searches();
+
+  const first = await client.watchlistCheck();
+  expect(first.accounts.map((a) => a.tweets.length)).toEqual([3, 3, 3]);
+  expect(searches().every((r) => !r.includes("since_id=") && !r.includes("start_time="))).toBe(true);
+
+  const again = await client.watchlistCheck();
+  expect(again.newTweets).toBe(0);
+  const newest = client.watchlist().map((a) => BigInt(a.lastSeenId!));
+  const oldest = newest.reduce((min, id) => (id < min ? id : min));
+  expect(searches()).toEqual([expect.stringContaining(`since_id=${oldest}`)]);
+});
+
+test("a newly added account doesn't turn since_id off for the rest", async () => {
+  const { client } = setup(["alice", "bob"]);
+  await client.watchlistCheck();
+  client.watchlistAdd("dave");
+  searches();
+
+  await client.watchlistCheck();
+  expect(searches()).toEqual([expect.stringContaining("since_id=")]);
+});
+
+test("a batch with a baseline pages until it catches up, then advances", async () => {
+  const { client, edit } = setup(["alice", "bob", "carol"]);
+  await client.watchlistCheck();
+  edit((a) => (a.lastSeenId = OLD_ID));
+  searches();
+
+  const r = await client.watchlistCheck();
+  const requests = searches();
+  expect(requests.length).toBeGreaterThan(1);
+  expect(requests[1]).toContain("pagination_token=");
+  expect(r.newTweets).toBeGreaterThan(100);
+  expect(r.accounts.some((a) => a.cutOff)).toBe(false);
+  expect(client.watchlist().every((a) => BigInt(a.lastSeenId!) > BigInt(OLD_ID))).toBe(true);
+});
+
+test("an account quiet for over a week falls back to start_time", async () => {
+  const { client, edit } = setup(["alice", "bob"]);
+  await client.watchlistCheck();
+  edit((a) => (a.lastSeenAt = new Date(Date.now() - 8 * DAY_MS).toISOString()), "alice");
+  searches();
+
+  await client.watchlistCheck();
+  const [request] = searches();
+  expect(request).toContain("start_time=");
+  expect(request).not.toContain("since_id=");
+});
+
+test("an account cut off by --pages keeps its state", async () => {
+  const { client, edit } = setup(["alice", "bob", "carol"]);
+  await client.watchlistCheck();
+  // alice's baseline is past the window, so the batch can't be bounded
+  const weekAgo = new Date(Date.now() - 8 * DAY_MS).toISOString();
+  edit((a) => (a.lastSeenAt = a.lastCheckedAt = weekAgo), "alice");
+  edit((a) => (a.lastSeenId = OLD_ID), "bob");
+
+  const r = await client.watchlistCheck({ pages: 1 });
+  expect(r.accounts.find((a) => a.username === "bob")!.cutOff).toBe(true);
+  const bob = client.watchlist().find((a) => a.username === "bob")!;
+  expect(bob.lastSeenId).toBe(OLD_ID);
+});
+
+test("a failed batch doesn't abort the check or advance its accounts", async () => {
+  const filler = Array.from({ length: 40 }, (_, i) => `someverylongaccountname${i}`);
+  const { client } = setup(["alice", ...filler, "bob"]);
+  failFor = "from%3Aalice";
+  try {
+    const r = await client.watchlistCheck();
+    expect(r.accounts.find((a) => a.username === "alice")!.error).toContain("403");
+    expect(r.accounts.find((a) => a.username === "bob")!.tweets).toHaveLength(3);
+  } finally {
+    failFor = undefined;
+  }
+  const state = client.watchlist();
+  expect(state.find((a) => a.username === "alice")!.lastCheckedAt).toBeUndefined();
+  expect(state.find((a) => a.username === "bob")!.lastSeenId).toBeDefined();
+});
+
+test("a check where every batch fails throws", async () => {
+  const { client } = setup(["alice"]);
+  failFor = "from%3Aalice";
+  try {
+    await expect(client.watchlistCheck()).rejects.toThrow(/Watchlist check failed/);
+  } finally {
+    failFor = undefined;
+  }
+});
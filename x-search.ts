@@ -3,30 +3,72 @@
  * x-search — CLI for X/Twitter research.
  *
  * Commands:
- *   search <query> [options]    Search recent tweets
- *   thread <tweet_id>           Fetch full conversation thread
+ *   search <query> [options]    Search recent tweets (or full archive with --archive)
+ *   research <q1> <q2> ...      Run several queries, merge into one research doc
+ *   local <query>               Search the local tweet archive offline (free)
+ *   thread <tweet_id>           Fetch full conversation thread as a reply tree
  *   profile <username>          Recent tweets from a user
+ *   analyze <username>          Account analytics: cadence, engagement, links,
+ *                               mentions, hashtags (also profile --stats)
+ *   voices <query>              Rank the authors behind a search (--watch N
+ *                               adds the top N to the watchlist)
+ *   links <query>               Rank the links behind a search, by domain
+ *   counts <query>              Volume over time with spike detection (no posts read)
  *   tweet <tweet_id>            Fetch a single tweet
+ *   quotes <tweet_id>           Quote tweets of a tweet
  *   watchlist                   Show watchlist
  *   watchlist add <user>        Add user to watchlist
  *   watchlist remove <user>     Remove user from watchlist
- *   watchlist check             Check recent tweets from all watchlist accounts
+ *   watchlist check             Show new tweets from watchlist accounts since last check
+ *   saved                       List saved searches
+ *   saved add <name> <query>    Save a topic search (with any search options)
+ *   saved remove <name>         Remove a saved search
+ *   saved run <name> | --all    New matches since the last run, with volume change
  *   cache clear                 Clear search cache
+ *   usage                       Show estimated API spend from the local ledger
+ *   config                      Show the effective config and where it came from
+ *   serve                       MCP / JSON-RPC tool server on stdio
+ *
+ * `watchlist check` and `saved run` take --notify [--webhook URL]
+ * [--template slack|discord|json] to POST new hits to a webhook.
  *
  * Search options:
- *   --sort likes|impressions|retweets|recent   Sort order (default: likes)
+ *   --sort likes|impressions|retweets|recent|velocity   Sort order (default: likes)
  *   --min-likes N              Filter by minimum likes
  *   --min-impressions N        Filter by minimum impressions
  *   --pages N                  Number of pages to fetch (default: 1, max 5)
+ *   --archive                  Full-archive search (/2/tweets/search/all, 500/page)
+ *   --since <time>             Start time: 1h, 3d, 2024-01-15 or ISO 8601
+ *   --until <time>             End time: same formats as --since
  *   --no-replies               Exclude replies
  *   --no-retweets              Exclude retweets (added by default)
  *   --limit N                  Max results to display (default: 15)
  *   --quick                    Quick mode: 1 page, noise filter, 1hr cache
  *   --from <username>          Shorthand for from:username in query
- *   --quality                  Pre-filter low-engagement (min_faves:10)
- *   --save                     Save results to ~/clawd/drafts/
+ *   --to <username>            Shorthand for to:username (replies to them)
+ *   --url <domain|url>         Shorthand for url: (tweets linking there)
+ *   --lang <code>              Shorthand for lang: (e.g. en, ja)
+ *   --has <links,mentions,...> Shorthand for has: operators
+ *   --filter <preset,...>      Append named noise-filter presets (e.g. crypto)
+ *   --quality                  Drop low-engagement tweets (under 10 likes)
+ *   --has-media                Only tweets with images/video/GIFs
+ *   --media-type photo|video|gif  Only tweets with that media type
+ *   --save                     Save results (dir/filename: config file or
+ *                              X_SEARCH_SAVE_DIR / X_SEARCH_SAVE_NAME)
+ *   --save-format <name>       Format for --save (default: output format,
+ *                              markdown when printing telegram)
  *   --json                     Output raw JSON
  *   --markdown                 Output as markdown (for research docs)
+ *   --format <name>            telegram|markdown|json|jsonl|csv|html (any command)
+ *   --themes <file|auto>       Group markdown output by theme
+ *
+ * Global options:
+ *   --retries N                Retries for 5xx/network errors (default: 3)
+ *   --wait                     Wait out rate limits instead of failing
+ *   --budget USD               Daily spend cap (or X_DAILY_BUDGET env var)
+ *
+ * Defaults for any flag, filter presets, cache TTLs and the token source can
+ * be set in ~/.config/x-search/config.json and/or ./.x-search.json.
  */
 
 import { readFileSync, writeFileSync, existsSync } from "fs";
@@ -34,17 +76,48 @@ import { join } from "path";
 import * as api from "./lib/api";
 import * as cache from "./lib/cache";
 import * as fmt from "./lib/format";
+import * as ledger from "./lib/ledger";
+import * as themes from "./lib/themes";
+import * as store from "./lib/store";
+import * as save from "./lib/save";
+import * as config from "./lib/config";
+import * as notify from "./lib/notify";
+import * as mcp from "./lib/mcp";
+import * as q from "./lib/query";
+import { XResearchClient, SINCE_ID_MAX_AGE_MS } from "./lib/client";
+import type { SearchOptions, SortKey } from "./lib/client";
+import { VOICE_RANKS, type VoiceRank } from "./lib/voices";
+import { LINK_RANKS, type LinkRank } from "./lib/links";
+import { DEFAULT_SPIKE_THRESHOLD } from "./lib/volume";
 
 const SKILL_DIR = import.meta.dir;
-const WATCHLIST_PATH = join(SKILL_DIR, "data", "watchlist.json");
-const DRAFTS_DIR = join(process.env.HOME!, "clawd", "drafts");
+const SAVED_PATH = join(SKILL_DIR, "data", "saved.json");
+
+const client = new XResearchClient({ log: (message) => console.error(message) });
 
 // --- Arg parsing ---
 
 const args = process.argv.slice(2);
 const command = args[0];
 
-function getFlag(name: string): boolean {
+const COMMAND_ALIASES: Record<string, string> = {
+  s: "search",
+  r: "research",
+  l: "local",
+  t: "thread",
+  p: "profile",
+  q: "quotes",
+  v: "voices",
+  wl: "watchlist",
+  ss: "saved",
+};
+// Canonical name, for per-command config defaults
+const commandName = COMMAND_ALIASES[command] || command || "";
+
+/**
+ * Command-line flags/options only. getFlag/getOpt also fall back to config defaults.
+ */
+function takeFlag(name: string): boolean {
   const idx = args.indexOf(`--${name}`);
   if (idx >= 0) {
     args.splice(idx, 1);
@@ -53,7 +126,7 @@ function getFlag(name: string): boolean {
   return false;
 }
 
-function getOpt(name: string): string | undefined {
+function takeOpt(name: string): string | undefined {
   const idx = args.indexOf(`--${name}`);
   if (idx >= 0 && idx + 1 < args.length) {
     const val = args[idx + 1];
@@ -63,158 +136,393 @@ function getOpt(name: string): string | undefined {
   return undefined;
 }
 
-// --- Watchlist ---
+function optDefault(name: string): string | undefined {
+  const value = config.flagDefault(commandName, name);
+  return value === undefined || typeof value === "boolean" ? undefined : String(value);
+}
 
-interface Watchlist {
-  accounts: { username: string; note?: string; addedAt: string }[];
+function getFlag(name: string): boolean {
+  return takeFlag(name) || config.flagDefault(commandName, name) === true;
 }
 
-function loadWatchlist(): Watchlist {
-  if (!existsSync(WATCHLIST_PATH))
-    return { accounts: [] };
-  return JSON.parse(readFileSync(WATCHLIST_PATH, "utf-8"));
+function getOpt(name: string): string | undefined {
+  return takeOpt(name) ?? optDefault(name);
+}
+
+/**
+ * A number option that must be 0 or more (more than 0 with `positive`).
+ * Throws rather than letting NaN through, where it would quietly disable
+ * whatever the option controls.
+ */
+function nonNegative(
+  value: string,
+  label: string,
+  opts: { integer?: boolean; positive?: boolean } = {}
+): number {
+  const n = Number(value);
+  if (
+    value.trim() === "" ||
+    !Number.isFinite(n) ||
+    n < 0 ||
+    (opts.positive && n === 0) ||
+    (opts.integer && !Number.isInteger(n))
+  ) {
+    const bound = opts.positive ? (opts.integer ? "≥ 1" : "> 0") : "≥ 0";
+    throw new Error(
+      `Invalid ${label} "${value}" (expected ${opts.integer ? "a whole number" : "a number"} ${bound})`
+    );
+  }
+  return n;
+}
+
+// --- Saved searches ---
+
+interface SavedSearch {
+  name: string;
+  query: string; // raw query, before buildQuery
+  flags: string[]; // search options, as typed
+  addedAt: string;
+  // "New since last run" state, updated by `saved run`
+  lastSeenId?: string;
+  lastSeenAt?: string;
+  lastRunAt?: string;
+  lastNew?: number; // new matches found by the last run
+  lastPerHour?: number; // those matches per hour since the run before it
 }
 
-function saveWatchlist(wl: Watchlist) {
-  writeFileSync(WATCHLIST_PATH, JSON.stringify(wl, null, 2));
+interface SavedSearches {
+  searches: SavedSearch[];
+}
+
+function loadSaved(): SavedSearches {
+  if (!existsSync(SAVED_PATH)) return { searches: [] };
+  return JSON.parse(readFileSync(SAVED_PATH, "utf-8"));
+}
+
+function writeSaved(saved: SavedSearches) {
+  writeFileSync(SAVED_PATH, JSON.stringify(saved, null, 2));
+}
+
+/**
+ * Parse a saved search's stored flags as if they had been typed after
+ * `search`. Replaces the remaining args, so parse run-level flags first.
+ */
+function savedSearchOptions(flags: string[]): SearchOptions {
+  args.splice(1, args.length - 1, ...flags);
+  const o = parseSearchOptions();
+  const unknown = args.slice(1);
+  if (unknown.length > 0) {
+    throw new Error(`Unsupported saved-search flags: ${unknown.join(" ")}`);
+  }
+  return o;
+}
+
+// --- Notifications ---
+
+/**
+ * --notify [--webhook <url>] [--template slack|discord|json]. Undefined when
+ * not notifying; throws early if notifying but no webhook is configured.
+ */
+function getWebhook(): notify.Webhook | undefined {
+  const url = getOpt("webhook");
+  const template = getOpt("template");
+  if (!getFlag("notify") && !url) return undefined;
+  return notify.resolveWebhook({ url, template });
+}
+
+async function sendNotification(hook: notify.Webhook, n: notify.Notification) {
+  const r = await notify.send(hook, n);
+  const skipped = r.skipped ? `, ${r.skipped} skipped (already sent or repeated)` : "";
+  console.error(`🔔 Notified ${hook.template}: ${r.sent} tweets in ${r.messages} message(s)${skipped}`);
 }
 
 // --- Commands ---
 
-async function cmdSearch() {
-  // Parse new flags first (before getOpt consumes positional args)
+/**
+ * Consume the search flags shared by `search`, `research`, `local` and saved searches.
+ */
+function parseSearchOptions(): SearchOptions {
   const quick = getFlag("quick");
-  const quality = getFlag("quality");
-  const fromUser = getOpt("from");
+  const mediaTypeOpt = getOpt("media-type");
+  return {
+    quick,
+    quality: getFlag("quality"),
+    from: getOpt("from"),
+    to: getOpt("to"),
+    url: getOpt("url"),
+    lang: getOpt("lang"),
+    has: (getOpt("has") || "").split(",").map((h) => h.trim().toLowerCase()).filter(Boolean),
+    archive: getFlag("archive"),
+    sort: (getOpt("sort") || "likes") as SortKey,
+    minLikes: parseInt(getOpt("min-likes") || "0"),
+    minImpressions: parseInt(getOpt("min-impressions") || "0"),
+    // Quick mode forces a single page
+    pages: quick ? 1 : Math.min(parseInt(getOpt("pages") || "1"), 5),
+    since: getOpt("since"),
+    until: getOpt("until"),
+    noReplies: getFlag("no-replies"),
+    noRetweets: getFlag("no-retweets"),
+    hasMedia: getFlag("has-media"),
+    mediaType: mediaTypeOpt ? parseMediaType(mediaTypeOpt) : undefined,
+    velocityMetric: (getOpt("velocity-metric") || "likes") as api.VelocityMetric,
+    filters: (getOpt("filter") || "").split(",").map((f) => f.trim()).filter(Boolean),
+  };
+}
 
-  const sortOpt = getOpt("sort") || "likes";
-  const minLikes = parseInt(getOpt("min-likes") || "0");
-  const minImpressions = parseInt(getOpt("min-impressions") || "0");
-  let pages = Math.min(parseInt(getOpt("pages") || "1"), 5);
+/**
+ * --format <name>, with --json / --markdown kept as shorthands.
+ */
+function getOutputFormat(fallback: string = "telegram"): fmt.OutputFormat {
+  // Any of these on the command line beats a configured default format
+  return fmt.getFormat(takeFormatName() || optDefault("format") || fallback);
+}
+
+/**
+ * The format named on the command line (--format, --json, --markdown), if any.
+ */
+function takeFormatName(): string | undefined {
+  const name = takeOpt("format");
+  const asJson = takeFlag("json");
+  const asMarkdown = takeFlag("markdown");
+  return name || (asJson ? "json" : asMarkdown ? "markdown" : undefined);
+}
+
+/**
+ * Output format for report commands (analyze, voices, links, counts), which
+ * render their own structures in only some formats. Asking for another one
+ * on the command line is an error; a configured default they can't render
+ * falls back to telegram.
+ */
+function getReportFormat(supported: string[]): string {
+  const explicit = takeFormatName();
+  const name = fmt.getFormat(explicit || optDefault("format") || "telegram").name;
+  if (supported.includes(name)) return name;
+  if (!explicit) return "telegram";
+  console.error(`${commandName} doesn't support --format ${name} (use ${supported.join(", ")})`);
+  process.exit(1);
+}
+
+/**
+ * --themes <file.json|auto|none>: file rules (auto-clustering the rest),
+ * pure local clustering, or no grouping.
+ */
+function resolveThemes(
+  value: string,
+  tweets: api.Tweet[],
+  rawQueries: string[]
+): themes.Theme[] | undefined {
+  if (value === "none") return undefined;
+  return themes.buildThemes(tweets, {
+    rulesPath: value === "auto" ? undefined : value,
+    exclude: rawQueries,
+  });
+}
+
+/**
+ * --save / --save-format <name>. Saves in the output format, except that
+ * telegram output is saved as markdown. Undefined when not saving.
+ */
+function getSaveFormat(output: fmt.OutputFormat): fmt.OutputFormat | undefined {
+  const name = getOpt("save-format");
+  if (!getFlag("save") && !name) return undefined;
+  if (name) return fmt.getFormat(name);
+  return output.name === "telegram" ? fmt.getFormat("markdown") : output;
+}
+
+/**
+ * Write the full result set (ignoring the display limit) and report the path.
+ */
+function saveResults(
+  format: fmt.OutputFormat,
+  tweets: api.Tweet[],
+  ctx: fmt.FormatContext,
+  commandName: string
+) {
+  const path = save.write(format.render(tweets, { ...ctx, limit: undefined }), {
+    title: ctx.title,
+    command: commandName,
+    extension: format.extension,
+  });
+  console.error(`\nSaved to ${path}`);
+}
+
+async function cmdSearch() {
+  // Parse flags first (before collecting positional args)
+  const o = parseSearchOptions();
   let limit = parseInt(getOpt("limit") || "15");
-  const since = getOpt("since");
-  const noReplies = getFlag("no-replies");
-  const noRetweets = getFlag("no-retweets");
-  const save = getFlag("save");
-  const asJson = getFlag("json");
-  const asMarkdown = getFlag("markdown");
+  const format = getOutputFormat();
+  const saveFormat = getSaveFormat(format);
+  const themesOpt = getOpt("themes");
 
-  // Quick mode overrides
-  if (quick) {
-    pages = 1;
+  // Quick mode caps displayed results
+  if (o.quick) {
     limit = Math.min(limit, 10);
   }
 
   // Everything after "search" that isn't a flag is the query
   const queryParts = args.slice(1).filter((a) => !a.startsWith("--"));
-  let query = queryParts.join(" ");
+  const rawQuery = queryParts.join(" ");
 
-  if (!query) {
+  if (!rawQuery) {
     console.error("Usage: x-search.ts search <query> [options]");
     process.exit(1);
   }
 
-  // --from shorthand: add from:username if not already in query
-  if (fromUser && !query.toLowerCase().includes("from:")) {
-    query += ` from:${fromUser.replace(/^@/, "")}`;
-  }
+  const { query, tweets, stats } = await client.search(rawQuery, o);
 
-  // Auto-add noise filters unless already present
-  if (!query.includes("is:retweet") && !noRetweets) {
-    query += " -is:retweet";
-  }
-  if (quick && !query.includes("is:reply")) {
-    query += " -is:reply";
-  } else if (noReplies && !query.includes("is:reply")) {
-    query += " -is:reply";
-  }
+  // Track raw count for cost (API charges per tweet read, regardless of post-hoc filters)
+  const rawTweetCount = stats.raw;
+
+  const timeRange = describeTimeRange(o.since, o.until, !!o.archive);
+  const docThemes = themesOpt ? resolveThemes(themesOpt, tweets, [rawQuery]) : undefined;
 
-  // Cache TTL: 1hr for quick mode, 15min default
-  const cacheTtlMs = quick ? 3_600_000 : 900_000;
+  const research: fmt.ResearchMarkdownOptions = {
+    queries: [query],
+    timeRange,
+    themes: docThemes,
+  };
 
-  // Check cache (cache key does NOT include quick flag — shared between modes)
-  const cacheParams = `sort=${sortOpt}&pages=${pages}&since=${since || "7d"}`;
-  const cached = cache.get(query, cacheParams, cacheTtlMs);
-  let tweets: api.Tweet[];
+  // Output
+  const ctx: fmt.FormatContext = { title: query, limit, research };
+  console.log(format.render(tweets, ctx));
+  if (saveFormat) saveResults(saveFormat, tweets, ctx, "search");
 
-  if (cached) {
-    tweets = cached;
-    console.error(`(cached — ${tweets.length} tweets)`);
+  // Cost display (based on raw API reads, not post-filter count)
+  const cost = ledger.estimateCost(rawTweetCount).toFixed(2);
+  if (o.quick) {
+    console.error(`\n⚡ quick mode · ${rawTweetCount} tweets read (~$${cost})`);
   } else {
-    tweets = await api.search(query, {
-      pages,
-      sortOrder: sortOpt === "recent" ? "recency" : "relevancy",
-      since: since || undefined,
-    });
-    cache.set(query, cacheParams, tweets);
+    console.error(`\n📊 ${rawTweetCount} tweets read · est. cost ~$${cost}`);
   }
 
-  // Track raw count for cost (API charges per tweet read, regardless of post-hoc filters)
-  const rawTweetCount = tweets.length;
+  // Stats to stderr
+  const filtered = rawTweetCount !== tweets.length ? ` → ${tweets.length} after filters` : "";
+  console.error(
+    `${rawTweetCount} tweets${filtered} | sorted by ${o.sort} | ${o.pages} page(s) | ${timeRange}`
+  );
+}
 
-  // Filter
-  if (minLikes > 0 || minImpressions > 0) {
-    tweets = api.filterEngagement(tweets, {
-      minLikes: minLikes || undefined,
-      minImpressions: minImpressions || undefined,
-    });
-  }
+async function cmdResearch() {
+  const o = parseSearchOptions();
+  const file = getOpt("file");
+  const title = getOpt("title");
+  const themesOpt = getOpt("themes") || "auto";
+  const format = getOutputFormat("markdown");
+  const saveFormat = getSaveFormat(format);
 
-  // --quality: post-hoc filter for min 10 likes (min_faves not available as a search operator)
-  if (quality) {
-    tweets = api.filterEngagement(tweets, { minLikes: 10 });
+  // Each positional arg is one query; --file adds one query per line
+  const rawQueries = args.slice(1).filter((a) => !a.startsWith("--"));
+  if (file) {
+    rawQueries.push(
+      ...readFileSync(file, "utf-8")
+        .split("\n")
+        .map((l) => l.trim())
+        .filter((l) => l && !l.startsWith("#"))
+    );
   }
 
-  // Sort
-  if (sortOpt !== "recent") {
-    const metric = sortOpt as "likes" | "impressions" | "retweets";
-    tweets = api.sortBy(tweets, metric);
+  if (rawQueries.length === 0) {
+    console.error('Usage: x-search.ts research "<query 1>" "<query 2>" ... [--file queries.txt] [options]');
+    process.exit(1);
   }
 
-  tweets = api.dedupe(tweets);
+  const result = await client.research(rawQueries, o, (query) => console.error(`🔍 ${query}`));
+  const { tweets: merged, foundBy, stats } = result;
+  const queries = result.queries.map((q) => q.query);
+  const docTitle = title || rawQueries[0];
 
-  // Output
-  if (asJson) {
-    console.log(JSON.stringify(tweets.slice(0, limit), null, 2));
-  } else if (asMarkdown) {
-    const md = fmt.formatResearchMarkdown(query, tweets, {
-      queries: [query],
-    });
-    console.log(md);
-  } else {
-    console.log(fmt.formatResultsTelegram(tweets, { query, limit }));
-  }
-
-  // Save
-  if (save) {
-    const slug = query
-      .replace(/[^a-zA-Z0-9]+/g, "-")
-      .replace(/^-|-$/g, "")
-      .slice(0, 40)
-      .toLowerCase();
-    const date = new Date().toISOString().split("T")[0];
-    const path = join(DRAFTS_DIR, `x-research-${slug}-${date}.md`);
-    const md = fmt.formatResearchMarkdown(query, tweets, {
-      queries: [query],
-    });
-    writeFileSync(path, md);
-    console.error(`\nSaved to ${path}`);
+  // True cost: only what this run actually fetched (cache hits are free)
+  const research: fmt.ResearchMarkdownOptions = {
+    queries,
+    themes: resolveThemes(themesOpt, merged, rawQueries),
+    foundBy,
+    apiCalls: stats.apiCalls,
+    scanned: stats.raw,
+    cost: stats.cost,
+    timeRange: describeTimeRange(o.since, o.until, !!o.archive),
+  };
+
+  const ctx: fmt.FormatContext = {
+    title: docTitle,
+    research,
+    json: {
+      title: docTitle,
+      queries: result.queries,
+      apiCalls: stats.apiCalls,
+      cost: stats.cost,
+      tweets: merged.map((t) => ({ ...t, foundBy: foundBy[t.id] })),
+    },
+  };
+  console.log(format.render(merged, ctx));
+  if (saveFormat) saveResults(saveFormat, merged, ctx, "research");
+
+  console.error(
+    `\n📊 ${queries.length} queries · ${stats.raw} tweets read → ${merged.length} unique · ` +
+      `${stats.apiCalls} API calls · est. cost ~$${stats.cost.toFixed(2)}`
+  );
+}
+
+function parseMediaType(value: string): api.TweetMedia["type"] {
+  const types: Record<string, api.TweetMedia["type"]> = {
+    photo: "photo",
+    image: "photo",
+    video: "video",
+    gif: "animated_gif",
+    animated_gif: "animated_gif",
+  };
+  const type = types[value.toLowerCase()];
+  if (!type) {
+    console.error(`Unknown --media-type "${value}" (use photo, video or gif)`);
+    process.exit(1);
   }
+  return type;
+}
 
-  // Cost display (based on raw API reads, not post-filter count)
-  const cost = (rawTweetCount * 0.005).toFixed(2);
-  if (quick) {
-    console.error(`\n⚡ quick mode · ${rawTweetCount} tweets read (~$${cost})`);
-  } else {
-    console.error(`\n📊 ${rawTweetCount} tweets read · est. cost ~$${cost}`);
+function describeTimeRange(
+  since: string | undefined,
+  until: string | undefined,
+  archive: boolean
+): string {
+  let label = archive ? "full archive" : "recent";
+  if (since) label += ` | since ${since}`;
+  else label += archive ? " | last 30 days" : " | last 7 days";
+  if (until) label += ` | until ${until}`;
+  return label;
+}
+
+async function cmdLocal() {
+  const o = parseSearchOptions();
+  const limit = parseInt(getOpt("limit") || "15");
+  const format = getOutputFormat();
+  const themesOpt = getOpt("themes");
+
+  const query = args.slice(1).filter((a) => !a.startsWith("--")).join(" ");
+  if (!query) {
+    const s = store.stats();
+    console.log(`🗄  Local archive: ${s.tweets} tweets, ${s.users} users, ${s.snapshots} metric snapshots`);
+    console.log(`   ${s.path}`);
+    console.log(`\nUsage: x-search.ts local <query> [search options]`);
+    return;
   }
 
-  // Stats to stderr
-  const filtered = rawTweetCount !== tweets.length ? ` → ${tweets.length} after filters` : "";
-  const sinceLabel = since ? ` | since ${since}` : "";
-  console.error(
-    `${rawTweetCount} tweets${filtered} | sorted by ${sortOpt} | ${pages} page(s)${sinceLabel}`
+  const { tweets, stats } = client.local(query, o);
+  const matched = stats.raw;
+
+  console.log(
+    format.render(tweets, {
+      title: query,
+      limit,
+      research: {
+        queries: [query],
+        timeRange: "local archive",
+        themes: themesOpt ? resolveThemes(themesOpt, tweets, [query]) : undefined,
+        cost: 0,
+      },
+    })
   );
+
+  const filtered = matched !== tweets.length ? ` → ${tweets.length} after filters` : "";
+  console.error(`\n🗄  ${matched} archived tweets${filtered} | sorted by ${o.sort} | offline, $0.00`);
 }
 
 async function cmdThread() {
@@ -225,21 +533,31 @@ async function cmdThread() {
   }
 
   const pages = Math.min(parseInt(getOpt("pages") || "2"), 5);
-  const tweets = await api.thread(tweetId, { pages });
+  const format = getOutputFormat();
+  const saveFormat = getSaveFormat(format);
+  const { tree } = await client.thread(tweetId, { pages });
 
-  if (tweets.length === 0) {
+  if (!tree) {
     console.log("No tweets found in thread.");
     return;
   }
 
-  console.log(`🧵 Thread (${tweets.length} tweets)\n`);
-  for (const t of tweets) {
-    console.log(fmt.formatTweetTelegram(t, undefined, { full: true }));
-    console.log();
-  }
+  const ordered = threadOrder(tree);
+  const ctx: fmt.FormatContext = { title: `Thread ${tweetId}`, kind: "thread", tree, json: tree };
+  console.log(format.render(ordered, ctx));
+  if (saveFormat) saveResults(saveFormat, ordered, ctx, "thread");
+}
+
+/**
+ * Flatten a reply tree in reading order: self-thread, then replies depth-first.
+ */
+function threadOrder(tree: api.ThreadTree): api.Tweet[] {
+  const walk = (n: api.ThreadNode): api.Tweet[] => [n.tweet, ...n.children.flatMap(walk)];
+  return [...tree.selfThread, ...tree.replies.flatMap(walk)];
 }
 
 async function cmdProfile() {
+  if (takeFlag("stats")) return cmdAnalyze();
   const username = args[1]?.replace(/^@/, "");
   if (!username) {
     console.error("Usage: x-search.ts profile <username>");
@@ -248,18 +566,166 @@ async function cmdProfile() {
 
   const count = parseInt(getOpt("count") || "20");
   const includeReplies = getFlag("replies");
-  const asJson = getFlag("json");
+  const format = getOutputFormat();
+  const saveFormat = getSaveFormat(format);
+
+  const { user, tweets } = await client.profile(username, { count, includeReplies });
+
+  const ctx: fmt.FormatContext = {
+    title: `@${user.username}`,
+    kind: "profile",
+    user,
+    json: { user, tweets },
+  };
+  console.log(format.render(tweets, ctx));
+  if (saveFormat) saveResults(saveFormat, tweets, ctx, "profile");
+}
+
+/**
+ * Account analytics over a user's recent tweets, for vetting a voice before
+ * following or watchlisting it. Also `profile <username> --stats`.
+ */
+async function cmdAnalyze() {
+  const format = getReportFormat(["telegram", "json"]);
+  const username = args[1]?.replace(/^@/, "");
+  if (!username) {
+    console.error("Usage: x-search.ts analyze <username> [--pages N] [--replies] [--json]");
+    process.exit(1);
+  }
 
-  const { user, tweets } = await api.profile(username, {
-    count,
-    includeReplies,
+  const { account, stats } = await client.analyze(username, {
+    pages: parseInt(getOpt("pages") || "3"),
+    includeReplies: getFlag("replies"),
+    archive: getFlag("archive"),
+    since: getOpt("since"),
+    top: parseInt(getOpt("top") || "10"),
   });
 
-  if (asJson) {
-    console.log(JSON.stringify({ user, tweets }, null, 2));
+  if (format === "json") {
+    console.log(JSON.stringify(account, null, 2));
+    return;
+  }
+  console.log(fmt.formatAccountStatsTelegram(account));
+  console.error(`\n📊 ${stats.postsRead} tweets read · est. cost ~$${stats.cost.toFixed(2)}`);
+}
+
+/**
+ * Rank the authors behind a search: who to follow up with `from:` or add
+ * to the watchlist. --watch N adds the top N to the watchlist.
+ */
+async function cmdVoices() {
+  const o = parseSearchOptions();
+  const rank = (getOpt("rank") || "engagement") as VoiceRank;
+  const limit = parseInt(getOpt("limit") || "15");
+  const minTweets = parseInt(getOpt("min-tweets") || "1");
+  const watch = parseInt(getOpt("watch") || "0");
+  const format = getReportFormat(["telegram", "json"]);
+
+  const rawQuery = args.slice(1).filter((a) => !a.startsWith("--")).join(" ");
+  if (!rawQuery) {
+    console.error("Usage: x-search.ts voices <query> [--rank engagement|per-tweet|tweets|followers]");
+    process.exit(1);
+  }
+  if (!VOICE_RANKS.includes(rank)) {
+    console.error(`Invalid --rank "${rank}" (use ${VOICE_RANKS.join(", ")})`);
+    process.exit(1);
+  }
+
+  const { query, voices, stats } = await client.voices(rawQuery, { ...o, rank, minTweets });
+
+  if (format === "json") {
+    console.log(JSON.stringify({ query, rank, voices: voices.slice(0, limit) }, null, 2));
+  } else {
+    console.log(fmt.formatVoicesTelegram(voices, { query, rank, limit }));
+  }
+
+  if (watch > 0) {
+    const added = voices
+      .slice(0, watch)
+      .filter((v) => client.watchlistAdd(v.username, `voices: "${rawQuery}"`))
+      .map((v) => `@${v.username}`);
+    console.error(
+      added.length > 0
+        ? `\n📋 Added ${added.join(", ")} to watchlist.`
+        : `\n📋 Top ${watch} already on watchlist.`
+    );
+  }
+
+  console.error(
+    `\n📊 ${stats.raw} tweets read · ${voices.length} authors · est. cost ~$${stats.cost.toFixed(2)}`
+  );
+}
+
+/**
+ * Rank the links behind a search, for picking what to deep-dive: the
+ * resources several tweets point at, grouped by domain.
+ */
+async function cmdLinks() {
+  const o = parseSearchOptions();
+  const rank = (getOpt("rank") || "tweets") as LinkRank;
+  const limit = parseInt(getOpt("limit") || "15");
+  const minTweets = parseInt(getOpt("min-tweets") || "1");
+  const format = getReportFormat(["telegram", "markdown", "json"]);
+
+  const rawQuery = args.slice(1).filter((a) => !a.startsWith("--")).join(" ");
+  if (!rawQuery) {
+    console.error("Usage: x-search.ts links <query> [--rank tweets|engagement] [--min-tweets N]");
+    process.exit(1);
+  }
+  if (!LINK_RANKS.includes(rank)) {
+    console.error(`Invalid --rank "${rank}" (use ${LINK_RANKS.join(", ")})`);
+    process.exit(1);
+  }
+
+  const { query, links, domains, stats } = await client.links(rawQuery, { ...o, rank, minTweets });
+
+  if (format === "json") {
+    console.log(JSON.stringify({ query, rank, links: links.slice(0, limit), domains }, null, 2));
+  } else if (format === "markdown") {
+    console.log(fmt.formatLinksMarkdown(links, domains, { query, limit }));
   } else {
-    console.log(fmt.formatProfileTelegram(user, tweets));
+    console.log(fmt.formatLinksTelegram(links, domains, { query, rank, limit }));
   }
+
+  console.error(
+    `\n📊 ${stats.raw} tweets read · ${links.length} links · est. cost ~$${stats.cost.toFixed(2)}`
+  );
+}
+
+const GRANULARITIES: api.Granularity[] = ["minute", "hour", "day"];
+
+/**
+ * Tweet volume over time, for deciding when (and whether) a topic is worth
+ * reading posts for. Uses the counts endpoints, which read no posts.
+ */
+async function cmdCounts() {
+  const o = parseSearchOptions();
+  const granularity = (getOpt("granularity") || "hour") as api.Granularity;
+  const threshold = nonNegative(getOpt("threshold") || String(DEFAULT_SPIKE_THRESHOLD), "--threshold");
+  const format = getReportFormat(["telegram", "markdown", "json"]);
+
+  const rawQuery = args.slice(1).filter((a) => !a.startsWith("--")).join(" ");
+  if (!rawQuery) {
+    console.error("Usage: x-search.ts counts <query> [--granularity minute|hour|day] [--since 3d]");
+    process.exit(1);
+  }
+  if (!GRANULARITIES.includes(granularity)) {
+    console.error(`Invalid --granularity "${granularity}" (use ${GRANULARITIES.join(", ")})`);
+    process.exit(1);
+  }
+
+  const { query, volume, stats } = await client.counts(rawQuery, { ...o, granularity, threshold });
+
+  if (format === "json") {
+    console.log(JSON.stringify({ query, ...volume }, null, 2));
+  } else if (format === "markdown") {
+    console.log(fmt.formatVolumeMarkdown(volume, { query, threshold }));
+  } else {
+    console.log(fmt.formatVolumeTelegram(volume, { query, threshold }));
+  }
+
+  const calls = stats.apiCalls === 1 ? "1 API call" : `${stats.apiCalls} API calls`;
+  console.error(`\n📊 ${calls} · ${describeTimeRange(o.since, o.until, !!o.archive)} · no posts read`);
 }
 
 async function cmdTweet() {
@@ -269,23 +735,58 @@ async function cmdTweet() {
     process.exit(1);
   }
 
-  const tweet = await api.getTweet(tweetId);
+  const format = getOutputFormat();
+  const { tweet } = await client.tweet(tweetId);
   if (!tweet) {
     console.log("Tweet not found.");
     return;
   }
 
-  const asJson = getFlag("json");
-  if (asJson) {
-    console.log(JSON.stringify(tweet, null, 2));
-  } else {
-    console.log(fmt.formatTweetTelegram(tweet, undefined, { full: true }));
+  console.log(
+    format.render([tweet], {
+      title: `@${tweet.username}/${tweet.id}`,
+      kind: "tweet",
+      json: tweet,
+    })
+  );
+}
+
+async function cmdQuotes() {
+  const tweetId = args[1];
+  if (!tweetId) {
+    console.error("Usage: x-search.ts quotes <tweet_id> [options]");
+    process.exit(1);
+  }
+
+  const pages = Math.min(parseInt(getOpt("pages") || "1"), 5);
+  const sortOpt = getOpt("sort") || "likes";
+  const limit = parseInt(getOpt("limit") || "15");
+  const format = getOutputFormat();
+
+  // Every result embeds the same original — the client returns it once for the header
+  const { original, tweets } = await client.quotes(tweetId, { pages, sort: sortOpt as SortKey });
+  if (tweets.length === 0) {
+    console.log("No quote tweets found.");
+    return;
+  }
+
+  if (format.name === "telegram" && original) {
+    console.log(`💬 Quoting:\n${fmt.formatTweetTelegram(original, undefined, { full: true })}\n`);
   }
+  const title = original ? `quotes of @${original.username}` : `quotes of ${tweetId}`;
+  console.log(
+    format.render(tweets, {
+      title,
+      limit,
+      json: { original, quotes: tweets.slice(0, limit) },
+    })
+  );
+  console.error(`\n📊 ${tweets.length} quote tweets read · est. cost ~$${ledger.estimateCost(tweets.length).toFixed(2)}`);
 }
 
 async function cmdWatchlist() {
   const sub = args[1];
-  const wl = loadWatchlist();
+  const accounts = client.watchlist();
 
   if (sub === "add") {
     const username = args[2]?.replace(/^@/, "");
@@ -294,16 +795,10 @@ async function cmdWatchlist() {
       console.error("Usage: x-search.ts watchlist add <username> [note]");
       process.exit(1);
     }
-    if (wl.accounts.find((a) => a.username.toLowerCase() === username.toLowerCase())) {
+    if (!client.watchlistAdd(username, note)) {
       console.log(`@${username} already on watchlist.`);
       return;
     }
-    wl.accounts.push({
-      username,
-      note,
-      addedAt: new Date().toISOString(),
-    });
-    saveWatchlist(wl);
     console.log(`Added @${username} to watchlist.${note ? ` (${note})` : ""}`);
     return;
   }
@@ -314,13 +809,8 @@ async function cmdWatchlist() {
       console.error("Usage: x-search.ts watchlist remove <username>");
       process.exit(1);
     }
-    const before = wl.accounts.length;
-    wl.accounts = wl.accounts.filter(
-      (a) => a.username.toLowerCase() !== username.toLowerCase()
-    );
-    saveWatchlist(wl);
     console.log(
-      wl.accounts.length < before
+      client.watchlistRemove(username)
         ? `Removed @${username} from watchlist.`
         : `@${username} not found on watchlist.`
     );
@@ -328,71 +818,436 @@ async function cmdWatchlist() {
   }
 
   if (sub === "check") {
-    if (wl.accounts.length === 0) {
+    const format = getOutputFormat();
+    const hook = getWebhook();
+    if (accounts.length === 0) {
       console.log("Watchlist is empty. Add accounts with: watchlist add <username>");
       return;
     }
-    console.log(`Checking ${wl.accounts.length} watchlist accounts...\n`);
-    for (const acct of wl.accounts) {
-      try {
-        const { user, tweets } = await api.profile(acct.username, { count: 5 });
-        const label = acct.note ? ` (${acct.note})` : "";
-        console.log(`\n--- @${acct.username}${label} ---`);
-        if (tweets.length === 0) {
-          console.log("  No recent tweets.");
-        } else {
-          for (const t of tweets.slice(0, 3)) {
-            console.log(fmt.formatTweetTelegram(t));
-            console.log();
+    console.error(`Checking ${accounts.length} watchlist accounts...\n`);
+
+    const pages = Math.min(parseInt(getOpt("pages") || "1"), 5);
+    const { checkedAt, newTweets: total, accounts: digest } = await client.watchlistCheck({
+      pages,
+      // Notify before state is saved: if the webhook fails, the next check retries
+      beforeSave: async (r) => {
+        if (!hook || r.newTweets === 0) return;
+        const withNew = r.accounts.filter((d) => d.tweets.length > 0).length;
+        await sendNotification(hook, {
+          title: `Watchlist: ${r.newTweets} new tweets from ${withNew} accounts`,
+          tweets: r.accounts.flatMap((d) => d.tweets),
+          labels: Object.fromEntries(
+            r.accounts.flatMap((d) => (d.note ? d.tweets.map((t) => [t.id, d.note!]) : []))
+          ),
+        });
+      },
+    });
+
+    if (format.name !== "telegram") {
+      console.log(
+        format.render(
+          digest.flatMap((d) => d.tweets),
+          {
+            title: `Watchlist — new since last check (${checkedAt.split("T")[0]})`,
+            json: { checkedAt, newTweets: total, accounts: digest },
           }
+        )
+      );
+      return;
+    }
+
+    for (const d of digest) {
+      const label = d.note ? ` (${d.note})` : "";
+      console.log(`\n--- @${d.username}${label} ---`);
+      if (d.error) {
+        console.log(`  ⚠️  Not checked: ${d.error}`);
+      } else if (d.tweets.length === 0) {
+        const since = d.since ? ` since ${d.since.replace("T", " ").slice(0, 16)} UTC` : "";
+        console.log(`  No new tweets${since}.`);
+      } else {
+        for (const t of d.tweets) {
+          console.log(fmt.formatTweetTelegram(t));
+          console.log();
         }
-      } catch (e: any) {
-        console.error(`  Error checking @${acct.username}: ${e.message}`);
       }
     }
+    const withNew = digest.filter((d) => d.tweets.length > 0).length;
+    console.error(`\n${total} new tweets from ${withNew}/${digest.length} accounts`);
     return;
   }
 
   // Default: show watchlist
-  if (wl.accounts.length === 0) {
+  if (accounts.length === 0) {
     console.log("Watchlist is empty. Add accounts with: watchlist add <username>");
     return;
   }
-  console.log(`📋 Watchlist (${wl.accounts.length} accounts)\n`);
-  for (const acct of wl.accounts) {
+  console.log(`📋 Watchlist (${accounts.length} accounts)\n`);
+  for (const acct of accounts) {
     const note = acct.note ? ` — ${acct.note}` : "";
     console.log(`  @${acct.username}${note} (added ${acct.addedAt.split("T")[0]})`);
   }
 }
 
+async function cmdSaved() {
+  const sub = args[1];
+  const saved = loadSaved();
+  const find = (name: string) =>
+    saved.searches.find((x) => x.name.toLowerCase() === name.toLowerCase());
+
+  if (sub === "add") {
+    const name = args[2];
+    // Query is everything up to the first flag; the rest are search options
+    const rest = args.slice(3);
+    const firstFlag = rest.findIndex((a) => a.startsWith("--"));
+    const query = (firstFlag < 0 ? rest : rest.slice(0, firstFlag)).join(" ");
+    const flags = firstFlag < 0 ? [] : rest.slice(firstFlag);
+    if (!name || !query) {
+      console.error("Usage: x-search.ts saved add <name> <query> [search options]");
+      process.exit(1);
+    }
+    if (find(name)) {
+      console.log(`Saved search "${name}" already exists. Remove it first to change it.`);
+      return;
+    }
+    // Validate now rather than on the first scheduled run
+    client.buildQuery(query, savedSearchOptions(flags));
+    saved.searches.push({ name, query, flags, addedAt: new Date().toISOString() });
+    writeSaved(saved);
+    console.log(`Saved "${name}": ${query}${flags.length ? ` ${flags.join(" ")}` : ""}`);
+    return;
+  }
+
+  if (sub === "remove" || sub === "rm") {
+    const name = args[2];
+    if (!name) {
+      console.error("Usage: x-search.ts saved remove <name>");
+      process.exit(1);
+    }
+    const before = saved.searches.length;
+    saved.searches = saved.searches.filter((x) => x.name.toLowerCase() !== name.toLowerCase());
+    writeSaved(saved);
+    console.log(
+      saved.searches.length < before
+        ? `Removed saved search "${name}".`
+        : `Saved search "${name}" not found.`
+    );
+    return;
+  }
+
+  if (sub === "run") {
+    // Run-level flags, parsed before each search's own flags replace args
+    const all = getFlag("all");
+    const summaryOnly = getFlag("summary");
+    const limit = parseInt(getOpt("limit") || "15");
+    const format = getOutputFormat();
+    const hook = getWebhook();
+    const name = args[2];
+
+    if (!all && !name) {
+      console.error("Usage: x-search.ts saved run <name> | --all [--summary]");
+      process.exit(1);
+    }
+    const one = name ? find(name) : undefined;
+    if (!all && !one) {
+      console.error(`Saved search "${name}" not found.`);
+      process.exit(1);
+    }
+    const targets = all ? saved.searches : [one!];
+    if (targets.length === 0) {
+      console.log("No saved searches. Add one with: saved add <name> <query>");
+      return;
+    }
+
+    // Every search in the run must fit in today's budget before any runs
+    ledger.checkBudget(
+      targets.reduce((sum, s) => sum + client.estimateCost(savedSearchOptions(s.flags)), 0)
+    );
+
+    const runAt = new Date().toISOString();
+    const results: {
+      name: string;
+      query: string;
+      since?: string;
+      newTweets: number;
+      perHour?: number;
+      previousPerHour?: number;
+      tweets: api.Tweet[];
+    }[] = [];
+
+    for (const s of targets) {
+      const o = savedSearchOptions(s.flags);
+      // Recent search rejects since_id outside its 7-day window
+      const baseline =
+        s.lastSeenId &&
+        s.lastSeenAt &&
+        (o.archive || Date.now() - new Date(s.lastSeenAt).getTime() < SINCE_ID_MAX_AGE_MS)
+          ? s.lastSeenId
+          : undefined;
+
+      console.error(`🔍 ${s.name}: ${s.query}`);
+      const { query, tweets, stats } = await client.search(s.query, {
+        ...o,
+        sinceId: baseline,
+        cache: false,
+      });
+      const fresh = tweets.filter((t) => !s.lastSeenId || BigInt(t.id) > BigInt(s.lastSeenId));
+
+      // Volume per hour since the previous run, from the counts endpoint so it
+      // isn't capped by --pages; the first run has no interval
+      let perHour: number | undefined;
+      const hours = s.lastRunAt ? (Date.parse(runAt) - Date.parse(s.lastRunAt)) / 3_600_000 : 0;
+      if (hours > 0 && (o.archive || Date.now() - Date.parse(s.lastRunAt!) < SINCE_ID_MAX_AGE_MS)) {
+        try {
+          const { volume } = await client.counts(s.query, { ...o, since: s.lastRunAt });
+          perHour = volume.total / hours;
+        } catch (e: any) {
+          console.error(`⚠️  ${s.name}: volume unavailable (${e.message})`);
+        }
+      }
+      results.push({
+        name: s.name,
+        query,
+        since: s.lastRunAt,
+        newTweets: fresh.length,
+        perHour,
+        previousPerHour: s.lastPerHour,
+        tweets: fresh,
+      });
+
+      // Cut short by --pages (or a failed page): matches between the last page
+      // and the baseline weren't fetched, so keep the baseline for next run
+      const cutOff = !!s.lastSeenId && (stats.truncated || stats.partial);
+      if (cutOff) {
+        console.error(
+          `⚠️  ${s.name}: more new matches than ${o.pages || 1} page(s) could fetch — not marking them seen (raise --pages)`
+        );
+      }
+      // Track the newest raw ID so post-hoc-filtered tweets don't resurface
+      if (!cutOff && stats.newestId && (!s.lastSeenId || BigInt(stats.newestId) > BigInt(s.lastSeenId))) {
+        s.lastSeenId = stats.newestId;
+        s.lastSeenAt = stats.newestAt;
+      }
+      s.lastRunAt = runAt;
+      s.lastNew = fresh.length;
+      s.lastPerHour = perHour;
+    }
+
+    // Notify before saving state: if the webhook fails, the next run retries
+    const total = results.reduce((n, r) => n + r.newTweets, 0);
+    if (hook && total > 0) {
+      const withNew = results.filter((r) => r.newTweets > 0).length;
+      await sendNotification(hook, {
+        title: `Saved searches: ${total} new tweets from ${withNew} search(es)`,
+        tweets: results.flatMap((r) => r.tweets),
+        labels: Object.fromEntries(results.flatMap((r) => r.tweets.map((t) => [t.id, r.name]))),
+      });
+    }
+
+    writeSaved(saved);
+
+    if (format.name !== "telegram") {
+      console.log(
+        format.render(
+          summaryOnly ? [] : results.flatMap((r) => r.tweets.slice(0, limit)),
+          {
+            title: `Saved searches — new since last run (${runAt.split("T")[0]})`,
+            json: {
+              runAt,
+              newTweets: total,
+              searches: results.map((r) => ({
+                ...r,
+                tweets: summaryOnly ? undefined : r.tweets.slice(0, limit),
+              })),
+            },
+          }
+        )
+      );
+    } else {
+      for (const r of results) {
+        console.log(`\n--- ${r.name} ---\n${volumeSummary(r)}`);
+        if (summaryOnly) continue;
+        for (const t of r.tweets.slice(0, limit)) {
+          console.log(fmt.formatTweetTelegram(t));
+          console.log();
+        }
+        if (r.tweets.length > limit) console.log(`  ... +${r.tweets.length - limit} more`);
+      }
+    }
+
+    const spend = ledger.sessionTotals();
+    console.error(
+      `\n${total} new tweets across ${results.length} saved search(es) · ` +
+        `${spend.calls} API calls · est. cost ~$${spend.cost.toFixed(2)}`
+    );
+    return;
+  }
+
+  // Default: list saved searches
+  if (saved.searches.length === 0) {
+    console.log("No saved searches. Add one with: saved add <name> <query> [search options]");
+    return;
+  }
+  console.log(`🔖 Saved searches (${saved.searches.length})\n`);
+  for (const s of saved.searches) {
+    const flags = s.flags.length ? ` ${s.flags.join(" ")}` : "";
+    const last = s.lastRunAt
+      ? `last run ${s.lastRunAt.split("T")[0]}, ${s.lastNew ?? 0} new`
+      : "never run";
+    console.log(`  ${s.name}: ${s.query}${flags} (${last})`);
+  }
+}
+
+/**
+ * "12 new since 2024-01-15 09:00 UTC · 1.5/h (↑ 50% vs 1.0/h)"
+ */
+function volumeSummary(r: {
+  newTweets: number;
+  since?: string;
+  perHour?: number;
+  previousPerHour?: number;
+}): string {
+  const since = r.since ? ` since ${r.since.replace("T", " ").slice(0, 16)} UTC` : " (first run)";
+  let line = `  ${r.newTweets} new${since}`;
+  if (r.perHour === undefined) return line;
+  line += ` · ${r.perHour.toFixed(1)}/h`;
+  if (r.previousPerHour === undefined) return line;
+  if (r.previousPerHour === 0) {
+    return line + (r.perHour > 0 ? " (↑ from 0/h)" : " (flat)");
+  }
+  const change = ((r.perHour - r.previousPerHour) / r.previousPerHour) * 100;
+  const arrow = Math.abs(change) < 5 ? "→" : change > 0 ? "↑" : "↓";
+  return line + ` (${arrow} ${Math.abs(Math.round(change))}% vs ${r.previousPerHour.toFixed(1)}/h)`;
+}
+
 async function cmdCache() {
   const sub = args[1];
   if (sub === "clear") {
     const removed = cache.clear();
     console.log(`Cleared ${removed} cached entries.`);
   } else {
-    const removed = cache.prune();
+    const removed = cache.prune(client.cacheTtl());
     console.log(`Pruned ${removed} expired entries.`);
   }
 }
 
+async function cmdConfig() {
+  const sources = config.sources();
+  if (getFlag("json")) {
+    console.log(JSON.stringify({ sources, config: config.load() }, null, 2));
+    return;
+  }
+  if (sources.length === 0) {
+    console.log(`No config files found. Create ${config.configPath()}`);
+    console.log(`or ${config.DIR_CONFIG_NAME} in a project directory.`);
+  } else {
+    console.log(`Config (later wins):\n${sources.map((s) => `  ${s}`).join("\n")}\n`);
+    console.log(JSON.stringify(config.load(), null, 2));
+  }
+  console.log(`\nFilter presets: ${config.filterNames().join(", ")}`);
+}
+
+async function cmdUsage() {
+  const days = nonNegative(getOpt("days") || "7", "--days", { integer: true, positive: true });
+  const top = nonNegative(getOpt("top") || "10", "--top", { integer: true, positive: true });
+  const asJson = getFlag("json");
+  const summary = ledger.summarize(days);
+
+  if (asJson) {
+    console.log(JSON.stringify(summary, null, 2));
+    return;
+  }
+
+  const usd = (n: number) => `$${n.toFixed(2)}`;
+  const detail = (b: ledger.SpendBucket) =>
+    `${b.posts} posts, ${b.users} user lookups, ${b.calls} calls`;
+
+  console.log(`💸 X API spend — last ${days} day(s)\n`);
+  const budget = summary.budget !== undefined ? ` / ${usd(summary.budget)} daily budget` : "";
+  console.log(`Today (UTC): ${usd(summary.today)}${budget}`);
+  console.log(`Total: ${usd(summary.total.cost)} (${detail(summary.total)})`);
+
+  if (summary.total.calls === 0) return;
+
+  console.log(`\nBy day:`);
+  for (const b of summary.byDay) {
+    console.log(`  ${b.key}  ${usd(b.cost).padStart(8)}  (${detail(b)})`);
+  }
+  console.log(`\nBy command:`);
+  for (const b of summary.byCommand) {
+    console.log(`  ${b.key.padEnd(10)} ${usd(b.cost).padStart(8)}  (${detail(b)})`);
+  }
+  console.log(`\nTop queries:`);
+  for (const b of summary.byQuery.slice(0, top)) {
+    console.log(`  ${usd(b.cost).padStart(8)}  ${b.key}  (${b.calls} calls)`);
+  }
+}
+
 function usage() {
   console.log(`x-search — X/Twitter research CLI
 
 Commands:
-  search <query> [options]    Search recent tweets (last 7 days)
-  thread <tweet_id>           Fetch full conversation thread
-  profile <username>          Recent tweets from a user
+  search <query> [options]    Search recent tweets (last 7 days, or --archive)
+  research "<q1>" "<q2>" ...  Run several queries (or --file queries.txt),
+                             dedupe across them, print one markdown doc
+                             (--title T, --save, --format + search options)
+  local <query>               Search every tweet fetched so far, offline and
+                             free (same sort/filter flags as search)
+  thread <tweet_id>           Conversation as a reply tree (--format, --save)
+  profile <username>          Recent tweets from a user (--format, --save)
+  analyze <username>          Posting cadence, median/top engagement, rate vs
+                             followers, top domains, mentions and hashtags
+                             (--pages N, default 3; --replies; --archive
+                             --since 30d; --top N; --json). Same as
+                             profile <username> --stats
+  voices <query>              Authors behind a search, ranked by --rank
+                             engagement (default), per-tweet, tweets or
+                             followers (--min-tweets N, --limit, --json,
+                             --watch N adds the top N to the watchlist;
+                             + search options)
+  links <query>               Every link in the results, normalized (no
+                             tracking params, x.com/arXiv variants merged),
+                             ranked by --rank tweets (default) or engagement
+                             and grouped by domain (--min-tweets N, --limit,
+                             --markdown, --json; + search options)
+  counts <query>              Tweet volume per --granularity minute|hour|day
+                             (default hour) as a sparkline / bar chart, with
+                             buckets --threshold N robust σ above the median
+                             flagged as spikes (default 4). Reads no posts.
+                             --since/--until/--archive, --markdown (table),
+                             --json; query flags like --from/--lang apply
   tweet <tweet_id>            Fetch a single tweet
+  quotes <tweet_id>           Quote tweets of a tweet (--sort, --pages,
+                             --limit, --json, --markdown)
   watchlist                   Show watchlist
   watchlist add <user> [note] Add user to watchlist
   watchlist remove <user>     Remove user from watchlist
-  watchlist check             Check recent from all watchlist accounts
+  watchlist check [--json]    New tweets from watchlist since last check
+                             (--pages N per batched query, default 1)
+  saved                       List saved searches
+  saved add <name> <query> [search options]
+                             Save a topic search, e.g.
+                             saved add acme "acme OR @acme" --no-replies
+  saved remove <name>         Remove a saved search
+  saved run <name> | --all    New matches since the last run (by tweet ID),
+                             with volume per hour vs the previous run
+                             (--summary for counts only, --limit, --format)
   cache clear                 Clear search cache
+  usage [--days N] [--json]   Estimated API spend by day, command and query
+  config [--json]             Effective config and the files it came from
+  serve                       MCP tool server on stdio (search, thread,
+                             profile, tweet, watchlist); also answers plain
+                             JSON-RPC calls like {"method": "search", ...}
 
 Search options:
-  --sort likes|impressions|retweets|recent   (default: likes)
+  --sort likes|impressions|retweets|recent|velocity   (default: likes)
+  --velocity-metric likes|impressions|retweets   Metric for --sort velocity:
+                             per hour since the last fetch if the tweet was
+                             seen before, else per hour since posted
   --since 1h|3h|12h|1d|7d   Time filter (default: last 7 days)
+                             Also accepts dates (2024-01-15) or ISO 8601
+  --until <time>             End of time range (same formats as --since)
+  --archive                  Full-archive search, back to 2006 (500/page,
+                             1,024-char queries; default last 30 days)
   --min-likes N              Filter minimum likes
   --min-impressions N        Filter minimum impressions
   --pages N                  Pages to fetch, 1-5 (default: 1)
@@ -400,21 +1255,260 @@ Search options:
   --quick                    Quick mode: 1 page, max 10 results, auto noise
                              filter, 1hr cache TTL, cost summary
   --from <username>          Shorthand for from:username in query
-  --quality                  Pre-filter low-engagement tweets (min_faves:10)
+  --to <username>            Only replies to this user (to:username)
+  --url <domain|url>         Only tweets linking there (url:)
+  --lang <code>              Only tweets in this language (lang:en, ...)
+  --has <a,b,...>            has: operators: links, media, images,
+                             video_link, mentions, hashtags, cashtags, geo
+  --filter <preset,...>      Append noise-filter presets: crypto (-$ -airdrop
+                             -giveaway -whitelist) or your own from config
+  --quality                  Drop tweets under 10 likes (after fetching;
+                             min_faves isn't a v2 operator)
+  --has-media                Only tweets with media (adds has:media)
+  --media-type photo|video|gif  Only tweets with that media type
   --no-replies               Exclude replies
-  --save                     Save to ~/clawd/drafts/
+  --save                     Save the full results to a file (also on
+                             research, thread and profile). Directory and
+                             name from X_SEARCH_SAVE_DIR / X_SEARCH_SAVE_NAME
+                             or "save" in ~/.config/x-search/config.json;
+                             default ~/clawd/drafts if it exists, else
+                             ./drafts. Never overwrites (adds -2, -3, ...)
+  --save-format <name>       Format to save in (default: the output format;
+                             markdown when printing telegram)
   --json                     Raw JSON output
-  --markdown                 Markdown output`);
+  --markdown                 Markdown output
+  --format <name>            telegram (default), markdown, json, jsonl, csv or
+                             html — works on every command that prints tweets
+  --themes <file.json|auto>  Group markdown/--save output by theme: a JSON
+                             file of titles → tweet IDs or keyword rules
+                             (rest auto-clustered), or auto-cluster only
+                             (research defaults to auto; "none" disables)
+
+Notifications (watchlist check, saved run):
+  --notify                   POST new hits to the configured webhook
+                             ("notify" in config, or X_SEARCH_WEBHOOK_URL).
+                             Each tweet is sent to a given webhook only once
+  --webhook <url>            Webhook URL for this run (implies --notify)
+  --template slack|discord|json  Payload format (default: guessed from the
+                             URL — Slack/Discord hooks — else generic JSON)
+
+Global options:
+  --retries N                Retries for 5xx/network errors (default: 3,
+                             exponential backoff from 1s)
+  --wait                     On 429, wait for the rate limit reset (max 15min)
+                             instead of failing
+  --budget USD               Daily spend cap (UTC day); refuses commands that
+                             could exceed it. Also: X_DAILY_BUDGET env var
+
+Config: ~/.config/x-search/config.json (or X_SEARCH_CONFIG), then the nearest
+.x-search.json (per project) on top. Keys: "defaults" / "commands" (default
+flags, e.g. {"sort": "recent", "limit": 20}), "filters" (named presets),
+"excludeRetweets", "cache" ({"ttl": "15m", "quickTtl": "1h"}), "token"
+({"env": NAME} | {"file": PATH} | {"command": CMD}) and "save".`);
+}
+
+// --- MCP / JSON-RPC server ---
+
+const TWEET_ID_SCHEMA: mcp.JsonSchema = { type: "string", description: "Tweet ID" };
+const PAGES_SCHEMA: mcp.JsonSchema = { type: "integer", minimum: 1, maximum: 5 };
+
+/**
+ * Tools exposed by `serve`. Built on demand so config is only read when serving.
+ */
+function serverTools(): mcp.Tool[] {
+  return [
+    {
+      name: "search",
+      description:
+        "Search recent X posts (last 7 days, or the full archive with archive=true). " +
+        "Supports X search operators (from:, -is:reply, has:links, OR, quotes). " +
+        "Retweets are excluded unless includeRetweets is set.",
+      inputSchema: {
+        type: "object",
+        required: ["query"],
+        properties: {
+          query: { type: "string", description: "X search query" },
+          sort: {
+            type: "string",
+            enum: ["likes", "impressions", "retweets", "recent", "velocity"],
+            default: "likes",
+          },
+          limit: { type: "integer", minimum: 1, default: 15, description: "Max tweets returned" },
+          pages: { ...PAGES_SCHEMA, default: 1, description: "Pages to fetch (100 tweets each, 500 with archive)" },
+          since: { type: "string", description: "Start time: 1h, 3d, 2024-01-15 or ISO 8601" },
+          until: { type: "string", description: "End time, same formats as since" },
+          archive: { type: "boolean", description: "Full-archive search (back to 2006)" },
+          from: { type: "string", description: "Only posts from this username" },
+          to: { type: "string", description: "Only replies to this username" },
+          url: { type: "string", description: "Only posts linking to this domain or URL" },
+          lang: { type: "string", description: "Language code (en, ja, ...)" },
+          has: {
+            type: "array",
+            items: { type: "string", enum: q.HAS_VALUES },
+            description: "has: operators, e.g. links, mentions",
+          },
+          minLikes: { type: "integer", minimum: 0 },
+          minImpressions: { type: "integer", minimum: 0 },
+          quality: { type: "boolean", description: "Drop tweets under 10 likes" },
+          noReplies: { type: "boolean", description: "Exclude replies" },
+          includeRetweets: { type: "boolean", description: "Don't auto-exclude retweets" },
+          hasMedia: { type: "boolean" },
+          mediaType: { type: "string", enum: ["photo", "video", "animated_gif"] },
+          filters: {
+            type: "array",
+            items: { type: "string" },
+            description: `Noise-filter presets (${config.filterNames().join(", ")})`,
+          },
+        },
+      },
+      handler: async (input) => {
+        const { query, tweets, stats } = await client.search(input.query, {
+          quality: input.quality,
+          from: input.from,
+          to: input.to,
+          url: input.url,
+          lang: input.lang,
+          has: input.has,
+          archive: input.archive,
+          sort: input.sort,
+          minLikes: input.minLikes,
+          minImpressions: input.minImpressions,
+          pages: input.pages,
+          since: input.since,
+          until: input.until,
+          noReplies: input.noReplies,
+          noRetweets: input.includeRetweets,
+          hasMedia: input.hasMedia,
+          mediaType: input.mediaType,
+          filters: input.filters,
+        });
+        return { query, tweets: tweets.slice(0, input.limit ?? 15), stats };
+      },
+    },
+    {
+      name: "thread",
+      description:
+        "Fetch a conversation: the author's self-thread plus the nested reply tree.",
+      inputSchema: {
+        type: "object",
+        required: ["tweetId"],
+        properties: {
+          tweetId: { ...TWEET_ID_SCHEMA, description: "ID of any tweet in the conversation" },
+          pages: { ...PAGES_SCHEMA, default: 2 },
+        },
+      },
+      handler: async (input) => {
+        const { tree, stats } = await client.thread(input.tweetId, { pages: input.pages });
+        return { tree, stats };
+      },
+    },
+    {
+      name: "profile",
+      description: "A user's profile and their recent tweets (newest first).",
+      inputSchema: {
+        type: "object",
+        required: ["username"],
+        properties: {
+          username: { type: "string", description: "Username, with or without @" },
+          count: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+          includeReplies: { type: "boolean" },
+        },
+      },
+      handler: (input) =>
+        client.profile(input.username, {
+          count: input.count,
+          includeReplies: input.includeReplies,
+        }),
+    },
+    {
+      name: "tweet",
+      description: "Fetch a single tweet by ID, with its quoted/replied-to tweet expanded.",
+      inputSchema: {
+        type: "object",
+        required: ["tweetId"],
+        properties: { tweetId: TWEET_ID_SCHEMA },
+      },
+      handler: (input) => client.tweet(input.tweetId),
+    },
+    {
+      name: "watchlist",
+      description:
+        "Manage the account watchlist. action=list shows it, add/remove edit it, " +
+        "check returns tweets posted since the previous check (and advances it).",
+      inputSchema: {
+        type: "object",
+        required: ["action"],
+        properties: {
+          action: { type: "string", enum: ["list", "add", "remove", "check"] },
+          username: { type: "string", description: "For add/remove" },
+          note: { type: "string", description: "For add" },
+          pages: { ...PAGES_SCHEMA, default: 1, description: "For check: pages per batched query" },
+        },
+      },
+      handler: async (input) => {
+        if (input.action === "check") return client.watchlistCheck({ pages: input.pages });
+        if (input.action === "add" || input.action === "remove") {
+          if (!input.username) throw new Error(`username is required for ${input.action}`);
+          if (input.action === "add") client.watchlistAdd(input.username, input.note);
+          else client.watchlistRemove(input.username);
+        }
+        return { accounts: client.watchlist() };
+      },
+    },
+  ];
+}
+
+/**
+ * Latest released version, from the newest "## vX.Y.Z" heading in the
+ * changelog (the skill has no package.json to read it from).
+ */
+function skillVersion(): string {
+  const changelog = readFileSync(join(SKILL_DIR, "CHANGELOG.md"), "utf-8");
+  return changelog.match(/^## v(\d+\.\d+\.\d+)/m)?.[1] || "0.0.0";
+}
+
+async function cmdServe() {
+  const tools = serverTools();
+  console.error(`x-search MCP server on stdio — tools: ${tools.map((t) => t.name).join(", ")}`);
+  await mcp.serveStdio(tools, { name: "x-search", version: skillVersion() });
 }
 
 // --- Main ---
 
 async function main() {
+  // Global retry options (apply to every command)
+  const retries = getOpt("retries");
+  if (retries !== undefined) {
+    api.setRetryOptions({ retries: nonNegative(retries, "--retries", { integer: true }) });
+  }
+  if (getFlag("wait")) api.setRetryOptions({ waitOnRateLimit: true });
+
+  // Spend ledger + daily budget guard (--budget, then X_DAILY_BUDGET, then config)
+  const budgetOpt = takeOpt("budget");
+  const budget = budgetOpt || process.env.X_DAILY_BUDGET || optDefault("budget");
+  if (budget) {
+    const source = budgetOpt
+      ? "--budget"
+      : process.env.X_DAILY_BUDGET
+        ? "X_DAILY_BUDGET"
+        : "budget in config";
+    ledger.setDailyBudget(nonNegative(budget, source));
+  }
+  ledger.setCommand(commandName);
+
   switch (command) {
     case "search":
     case "s":
       await cmdSearch();
       break;
+    case "research":
+    case "r":
+      await cmdResearch();
+      break;
+    case "local":
+    case "l":
+      await cmdLocal();
+      break;
     case "thread":
     case "t":
       await cmdThread();
@@ -423,16 +1517,46 @@ async function main() {
     case "p":
       await cmdProfile();
       break;
+    case "analyze":
+      await cmdAnalyze();
+      break;
+    case "voices":
+    case "v":
+      await cmdVoices();
+      break;
+    case "counts":
+      await cmdCounts();
+      break;
+    case "links":
+      await cmdLinks();
+      break;
     case "tweet":
       await cmdTweet();
       break;
+    case "quotes":
+    case "q":
+      await cmdQuotes();
+      break;
     case "watchlist":
     case "wl":
       await cmdWatchlist();
       break;
+    case "saved":
+    case "ss":
+      await cmdSaved();
+      break;
     case "cache":
       await cmdCache();
       break;
+    case "usage":
+      await cmdUsage();
+      break;
+    case "config":
+      await cmdConfig();
+      break;
+    case "serve":
+      await cmdServe();
+      break;
     default:
       usage();
   }